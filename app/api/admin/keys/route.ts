@@ -0,0 +1,141 @@
+// app/api/admin/keys/route.ts - API key management
+import { NextRequest, NextResponse } from 'next/server'
+import { authError, authorize, createApiKey, isValidScope, listApiKeys, revokeApiKey } from '@/lib/auth'
+import { isValidNamespace } from '@/lib/namespace'
+import { isValidTier, RATE_LIMIT_TIERS } from '@/lib/ratelimit'
+import { createAPIResponse } from '@/lib/utils'
+
+export const runtime = 'edge'
+export const dynamic = 'force-dynamic'
+
+// GET - List API keys (never the keys themselves)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize(request.headers, 'admin')
+    if (!auth.allowed) return authError(auth)
+
+    const keys = await listApiKeys()
+
+    return NextResponse.json(
+      createAPIResponse({ total: keys.length, keys }),
+      {
+        headers: { 'Cache-Control': 'no-store' }
+      }
+    )
+
+  } catch (error) {
+    console.error('API key list error:', error)
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Failed to list API keys' }),
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Create an API key with the given scopes, optionally bound to a namespace and with a rate limit tier
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize(request.headers, 'admin')
+    if (!auth.allowed) return authError(auth)
+
+    const body = await request.json()
+    const { name, scopes, namespace, tier } = body
+
+    if (typeof name !== 'string' || name.trim() === '') {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Name is required' }),
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Scopes array is required' }),
+        { status: 400 }
+      )
+    }
+
+    const invalid = scopes.filter(scope => !isValidScope(scope))
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: 'Invalid scopes',
+          message: `Unknown scopes: ${invalid.join(', ')}. Use: read, write:<prefix>, cache:admin, admin`
+        }),
+        { status: 400 }
+      )
+    }
+
+    if (namespace !== undefined && !isValidNamespace(namespace)) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `Invalid namespace "${namespace}"` }),
+        { status: 400 }
+      )
+    }
+
+    if (tier !== undefined && !isValidTier(tier)) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: `Invalid tier "${tier}"`,
+          message: `Use: ${Object.keys(RATE_LIMIT_TIERS).filter(isValidTier).join(', ')}`
+        }),
+        { status: 400 }
+      )
+    }
+
+    const { key, record } = await createApiKey(name.trim(), scopes, namespace, tier)
+
+    return NextResponse.json(
+      createAPIResponse(
+        { ...record, key },
+        { message: 'API key created. Store it now, it cannot be shown again.' }
+      ),
+      {
+        status: 201,
+        headers: { 'Cache-Control': 'no-store' }
+      }
+    )
+
+  } catch (error) {
+    console.error('API key create error:', error)
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Failed to create API key' }),
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Revoke an API key by id
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+
+    const auth = await authorize(request.headers, 'admin')
+    if (!auth.allowed) return authError(auth)
+
+    if (!id) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Id parameter is required' }),
+        { status: 400 }
+      )
+    }
+
+    if (!(await revokeApiKey(id))) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `API key not found: ${id}` }),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      createAPIResponse({ id, revoked: true }, { message: `API key ${id} revoked` })
+    )
+
+  } catch (error) {
+    console.error('API key revoke error:', error)
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Failed to revoke API key' }),
+      { status: 500 }
+    )
+  }
+}
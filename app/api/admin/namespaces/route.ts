@@ -0,0 +1,104 @@
+// app/api/admin/namespaces/route.ts - Namespace usage and quotas
+import { NextRequest, NextResponse } from 'next/server'
+import { authError, authorize } from '@/lib/auth'
+import {
+  getNamespaceQuota,
+  getNamespaceUsage,
+  isValidNamespace,
+  listNamespaces,
+  setNamespaceQuota
+} from '@/lib/namespace'
+import { createAPIResponse, formatBytes } from '@/lib/utils'
+
+export const runtime = 'edge'
+export const dynamic = 'force-dynamic'
+
+// GET - Usage and quota of every namespace, or of ?name=
+export async function GET(request: NextRequest) {
+  try {
+    const name = request.nextUrl.searchParams.get('name')
+
+    const auth = await authorize(request.headers, 'admin')
+    if (!auth.allowed) return authError(auth)
+
+    if (name && !isValidNamespace(name)) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `Invalid namespace "${name}"` }),
+        { status: 400 }
+      )
+    }
+
+    const names = name ? [name] : await listNamespaces()
+    const namespaces = []
+
+    for (const namespace of names) {
+      const usage = await getNamespaceUsage(namespace)
+      const quota = await getNamespaceQuota(namespace)
+
+      namespaces.push({
+        name: namespace,
+        usage: { ...usage, bytesFormatted: formatBytes(usage.bytes) },
+        quota
+      })
+    }
+
+    return NextResponse.json(
+      createAPIResponse(name ? namespaces[0] : { total: namespaces.length, namespaces }),
+      {
+        headers: { 'Cache-Control': 'no-store' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Namespace list error:', error)
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Failed to fetch namespaces' }),
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Set the quota of a namespace ({ name, maxKeys?, maxBytes? }; 0 = unlimited)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize(request.headers, 'admin')
+    if (!auth.allowed) return authError(auth)
+
+    const body = await request.json()
+    const { name, maxKeys, maxBytes } = body
+
+    if (!isValidNamespace(name)) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'A valid namespace name is required' }),
+        { status: 400 }
+      )
+    }
+
+    const invalid = [['maxKeys', maxKeys], ['maxBytes', maxBytes]]
+      .filter(([, value]) => value !== undefined && (!Number.isInteger(value) || value < 0))
+      .map(([field]) => field)
+
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `${invalid.join(' and ')} must be a non-negative integer` }),
+        { status: 400 }
+      )
+    }
+
+    const quota = await setNamespaceQuota(name, {
+      ...(maxKeys !== undefined && { maxKeys }),
+      ...(maxBytes !== undefined && { maxBytes })
+    })
+
+    return NextResponse.json(
+      createAPIResponse({ name, quota }, { message: `Quota updated for namespace "${name}"` })
+    )
+
+  } catch (error) {
+    console.error('Namespace quota error:', error)
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Failed to update namespace quota' }),
+      { status: 500 }
+    )
+  }
+}
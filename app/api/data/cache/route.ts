@@ -1,8 +1,33 @@
 // app/api/data/cache/route.ts - Cache management endpoint
 import { NextRequest, NextResponse } from 'next/server'
-import { cache } from '@/lib/cache'
-import { db } from '@/lib/database'
-import { createAPIResponse, getClientIP, globalRateLimiter } from '@/lib/utils'
+import { cache, parseCacheTags } from '@/lib/cache'
+import { db, isReservedKey } from '@/lib/database'
+import { authError, authorize, AuthResult } from '@/lib/auth'
+import {
+  DEFAULT_NAMESPACE,
+  inNamespace,
+  namespaceError,
+  NamespaceResult,
+  resolveNamespace,
+  toStorageKey,
+  toStorageTags
+} from '@/lib/namespace'
+import { createAPIResponse, formatBytes } from '@/lib/utils'
+import {
+  createWarmupJob,
+  deleteWarmupJob,
+  getHitRate,
+  getWarmupRun,
+  isCronRequest,
+  isValidRegion,
+  listSeenRegions,
+  listWarmupJobs,
+  MAX_WARMUP_KEYS,
+  MAX_WARMUP_REGIONS,
+  MIN_WARMUP_INTERVAL,
+  runDueWarmupJobs,
+  warmDocuments
+} from '@/lib/warmup'
 
 export const runtime = 'edge'
 
@@ -10,32 +35,36 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     const action = searchParams.get('action') || 'stats'
-    const clientIP = getClientIP(request.headers)
     
-    // Rate limiting for cache operations
-    if (!globalRateLimiter.isAllowed(`cache:${clientIP}`)) {
-      return NextResponse.json(
-        createAPIResponse(null, { error: 'Rate limit exceeded' }),
-        { status: 429 }
-      )
-    }
+    // Stats are read-only; everything else exposes or drops cache internals.
+    // Scheduled warmups are also run by Vercel Cron.
+    const auth: AuthResult = action === 'runWarmup' && isCronRequest(request.headers)
+      ? { allowed: true }
+      : await authorize(request.headers, action === 'stats' ? 'read' : 'cache:admin')
+    if (!auth.allowed) return authError(auth)
     
     switch (action) {
       case 'stats':
-        return await handleCacheStats()
+        return await handleCacheStats(request, auth.namespace)
         
       case 'clear':
-        return await handleCacheClear()
+        return await handleCacheClear(request, auth.namespace)
         
       case 'keys':
-        return await handleCacheKeys(searchParams)
+        return await handleCacheKeys(request, auth.namespace)
         
       case 'info':
-        return await handleCacheInfo(searchParams)
+        return await handleCacheInfo(request, auth.namespace)
+        
+      case 'warmup':
+        return await handleWarmupStatus(request, auth.namespace)
+        
+      case 'runWarmup':
+        return await handleWarmupRunDue(auth.namespace)
         
       default:
         return NextResponse.json(
-          createAPIResponse(null, { error: 'Invalid action. Use: stats, clear, keys, info' }),
+          createAPIResponse(null, { error: 'Invalid action. Use: stats, clear, keys, info, warmup, runWarmup' }),
           { status: 400 }
         )
     }
@@ -52,54 +81,36 @@ export async function GET(request: NextRequest) {
 // POST - Cache management operations
 export async function POST(request: NextRequest) {
   try {
-    const clientIP = getClientIP(request.headers)
-    
-    // Strict rate limiting for POST operations
-    if (!globalRateLimiter.isAllowed(`cache-post:${clientIP}`)) {
-      return NextResponse.json(
-        createAPIResponse(null, { error: 'Rate limit exceeded' }),
-        { status: 429 }
-      )
-    }
+    const auth = await authorize(request.headers, 'cache:admin')
+    if (!auth.allowed) return authError(auth)
     
     const body = await request.json()
-    const { action, key, pattern } = body
+    const { action } = body
     
     switch (action) {
       case 'invalidate':
-        if (!key) {
-          return NextResponse.json(
-            createAPIResponse(null, { error: 'Key is required for invalidation' }),
-            { status: 400 }
-          )
-        }
-        
-        await cache.invalidate(key)
-        
-        return NextResponse.json(
-          createAPIResponse({ key }, { message: `Cache invalidated for key: ${key}` })
-        )
+        return await handleKeyInvalidation(request, body, auth.namespace)
         
       case 'invalidatePattern':
-        if (!pattern) {
-          return NextResponse.json(
-            createAPIResponse(null, { error: 'Pattern is required for pattern invalidation' }),
-            { status: 400 }
-          )
-        }
+        return await handlePatternInvalidation(request, body, auth.namespace)
         
-        await cache.invalidatePattern(pattern)
-        
-        return NextResponse.json(
-          createAPIResponse({ pattern }, { message: `Cache invalidated for pattern: ${pattern}` })
-        )
+      case 'invalidateTags':
+        return await handleTagInvalidation(request, body, auth.namespace)
         
       case 'warmup':
-        return await handleCacheWarmup(body)
+        return await handleCacheWarmup(request, body, auth.namespace)
+        
+      case 'scheduleWarmup':
+        return await handleWarmupSchedule(request, body, auth.namespace)
+        
+      case 'unscheduleWarmup':
+        return await handleWarmupUnschedule(request, body, auth.namespace)
         
       default:
         return NextResponse.json(
-          createAPIResponse(null, { error: 'Invalid action. Use: invalidate, invalidatePattern, warmup' }),
+          createAPIResponse(null, {
+            error: 'Invalid action. Use: invalidate, invalidatePattern, invalidateTags, warmup, scheduleWarmup, unscheduleWarmup'
+          }),
           { status: 400 }
         )
     }
@@ -113,26 +124,42 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Handle cache statistics
-async function handleCacheStats() {
+// Handle cache stats of a namespace. Its document entries are counted from
+// the set they are grouped in, so nothing is scanned.
+async function handleCacheStats(request: NextRequest, boundTo?: string) {
   try {
-    const kvKeys = await db.list('cache:*')
+    const namespace = resolveNamespace(request, boundTo)
+    if (namespace.error) return namespaceError(namespace)
+    
+    const kvKeys = await cache.groupEntries(namespace.name)
     const memoryStats = cache.getStats()
+    const memoryKeys = memoryStats.memoryKeys.filter(key => inCacheNamespace(namespace.name, key))
     
     const stats = {
+      namespace: namespace.name,
       kv: {
         totalEntries: kvKeys.length,
         keys: kvKeys.slice(0, 20), // Show first 20 keys
         hasMore: kvKeys.length > 20
       },
       memory: {
-        entries: memoryStats.memoryEntries,
-        keys: memoryStats.memoryKeys.slice(0, 10) // Show first 10 memory keys
+        entries: memoryKeys.length,
+        keys: memoryKeys.slice(0, 10), // Show first 10 memory keys
+        bytes: memoryStats.memoryBytes,
+        bytesFormatted: formatBytes(memoryStats.memoryBytes),
+        evictions: memoryStats.evictions,
+        limits: memoryStats.limits
+      },
+      layers: memoryStats.layers,
+      coalescing: {
+        inflight: memoryStats.inflight,
+        coalescedRequests: memoryStats.coalesced,
+        lockWaits: memoryStats.lockWaits
       },
       summary: {
-        totalCacheKeys: kvKeys.length + memoryStats.memoryEntries,
+        totalCacheKeys: kvKeys.length + memoryKeys.length,
         kvCacheSize: kvKeys.length,
-        memoryCacheSize: memoryStats.memoryEntries
+        memoryCacheSize: memoryKeys.length
       }
     }
     
@@ -143,9 +170,35 @@ async function handleCacheStats() {
   }
 }
 
-// Handle cache clear
-async function handleCacheClear() {
+// Handle cache clear. Keys bound to a namespace may not clear the shared
+// cache; other callers clear one namespace's entries when they pick one.
+async function handleCacheClear(request: NextRequest, boundTo?: string) {
   try {
+    if (boundTo) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: 'Forbidden',
+          message: `API key is limited to namespace "${boundTo}"; use invalidatePattern with a pattern such as "data:*"`
+        }),
+        { status: 403 }
+      )
+    }
+    
+    const namespace = resolveNamespace(request)
+    if (namespace.error) return namespaceError(namespace)
+    
+    if (namespace.name !== DEFAULT_NAMESPACE) {
+      await cache.invalidateGroup(namespace.name)
+      await cache.invalidatePattern('*', cacheKey => inCacheNamespace(namespace.name, cacheKey))
+      
+      return NextResponse.json(
+        createAPIResponse(
+          { cleared: true, namespace: namespace.name },
+          { message: `Caches cleared for namespace: ${namespace.name}` }
+        )
+      )
+    }
+    
     await cache.clear()
     
     return NextResponse.json(
@@ -160,22 +213,43 @@ async function handleCacheClear() {
   }
 }
 
-// Handle cache keys listing
-async function handleCacheKeys(searchParams: URLSearchParams) {
+// Handle cache keys listing, one page per request (?cursor= from the previous page).
+// Within a namespace, only its entries are listed.
+async function handleCacheKeys(request: NextRequest, boundTo?: string) {
   try {
+    const searchParams = request.nextUrl.searchParams
     const pattern = searchParams.get('pattern') || 'cache:*'
-    const limit = parseInt(searchParams.get('limit') || '50')
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 1000)
+    const cursor = searchParams.get('cursor') || '0'
+    
+    const namespace = resolveNamespace(request, boundTo)
+    if (namespace.error) return namespaceError(namespace)
     
-    const keys = await db.list(pattern)
-    const limitedKeys = keys.slice(0, limit)
+    if (!pattern.startsWith('cache:')) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Pattern must start with "cache:"' }),
+        { status: 400 }
+      )
+    }
+    
+    // Patterns that name the kind of entry are narrowed to the namespace's
+    // keys before scanning; the rest are filtered after
+    const scoped = isScoped(namespace, boundTo)
+    const scanPattern = scoped
+      ? `cache:${toCacheScope(namespace.name, pattern.slice('cache:'.length)) || pattern.slice('cache:'.length)}`
+      : pattern
+    
+    const page = await db.scan(scanPattern, cursor, limit)
+    const keys = scoped ? page.keys.filter(key => inCacheNamespace(namespace.name, key)) : page.keys
     
     return NextResponse.json(
       createAPIResponse({
         pattern,
-        keys: limitedKeys,
-        total: keys.length,
-        showing: limitedKeys.length,
-        hasMore: keys.length > limit
+        ...(scoped && { namespace: namespace.name }),
+        keys,
+        showing: keys.length,
+        cursor: page.cursor === '0' ? null : page.cursor,
+        hasMore: page.cursor !== '0'
       })
     )
     
@@ -185,9 +259,9 @@ async function handleCacheKeys(searchParams: URLSearchParams) {
 }
 
 // Handle cache info for specific key
-async function handleCacheInfo(searchParams: URLSearchParams) {
+async function handleCacheInfo(request: NextRequest, boundTo?: string) {
   try {
-    const key = searchParams.get('key')
+    const key = request.nextUrl.searchParams.get('key')
     
     if (!key) {
       return NextResponse.json(
@@ -196,7 +270,14 @@ async function handleCacheInfo(searchParams: URLSearchParams) {
       )
     }
     
-    const cacheKey = key.startsWith('cache:') ? key : `cache:${key}`
+    const namespace = resolveNamespace(request, boundTo)
+    if (namespace.error) return namespaceError(namespace)
+    
+    const entryKey = key.startsWith('cache:') ? key.slice('cache:'.length) : key
+    const scopedKey = isScoped(namespace, boundTo) ? toCacheScope(namespace.name, entryKey) : entryKey
+    if (!scopedKey) return unscopedCacheKey('Key', namespace.name)
+    
+    const cacheKey = `cache:${scopedKey}`
     const data = await db.get(cacheKey)
     
     if (!data) {
@@ -221,50 +302,311 @@ async function handleCacheInfo(searchParams: URLSearchParams) {
   }
 }
 
-// Handle cache warmup
-async function handleCacheWarmup(body: any) {
+// Handle invalidation of one cache entry, e.g. "data:users:US"; within a
+// namespace the key is moved into it, like tags
+async function handleKeyInvalidation(request: NextRequest, body: any, boundTo?: string) {
+  const { key } = body
+  
+  if (!key || typeof key !== 'string') {
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Key is required for invalidation' }),
+      { status: 400 }
+    )
+  }
+  
+  const namespace = resolveNamespace(request, boundTo)
+  if (namespace.error) return namespaceError(namespace)
+  
+  const scoped = isScoped(namespace, boundTo)
+  const cacheKey = scoped ? toCacheScope(namespace.name, key) : key
+  if (!cacheKey) return unscopedCacheKey('Key', namespace.name)
+  
+  await cache.invalidate(cacheKey)
+  
+  return NextResponse.json(
+    createAPIResponse(
+      { key, ...(scoped && { namespace: namespace.name }) },
+      { message: `Cache invalidated for key: ${key}` }
+    )
+  )
+}
+
+// Handle pattern invalidation; within a namespace the pattern has to name the
+// kind of entry (e.g. "data:users:*") and only matches the namespace's entries
+async function handlePatternInvalidation(request: NextRequest, body: any, boundTo?: string) {
+  const { pattern } = body
+  
+  if (!pattern || typeof pattern !== 'string') {
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Pattern is required for pattern invalidation' }),
+      { status: 400 }
+    )
+  }
+  
+  const namespace = resolveNamespace(request, boundTo)
+  if (namespace.error) return namespaceError(namespace)
+  
+  if (!isScoped(namespace, boundTo)) {
+    await cache.invalidatePattern(pattern)
+    
+    return NextResponse.json(
+      createAPIResponse({ pattern }, { message: `Cache invalidated for pattern: ${pattern}` })
+    )
+  }
+  
+  const scopedPattern = toCacheScope(namespace.name, pattern)
+  if (!scopedPattern) return unscopedCacheKey('Pattern', namespace.name)
+  
+  await cache.invalidatePattern(scopedPattern, cacheKey => inCacheNamespace(namespace.name, cacheKey))
+  
+  return NextResponse.json(
+    createAPIResponse(
+      { pattern, namespace: namespace.name },
+      { message: `Cache invalidated for pattern: ${pattern}` }
+    )
+  )
+}
+
+// Handle tag invalidation; tags belong to the namespace the documents were written in
+async function handleTagInvalidation(request: NextRequest, body: any, boundTo?: string) {
+  const { tags, error } = parseCacheTags(body.tags)
+  
+  if (error || !tags) {
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Tags are required for tag invalidation', ...(error && { message: error }) }),
+      { status: 400 }
+    )
+  }
+  
+  const namespace = resolveNamespace(request, boundTo)
+  if (namespace.error) return namespaceError(namespace)
+  
+  await cache.invalidateTags(toStorageTags(namespace.name, tags))
+  
+  return NextResponse.json(
+    createAPIResponse({ tags, namespace: namespace.name }, { message: `Cache invalidated for tags: ${tags.join(', ')}` })
+  )
+}
+
+// Handle cache warmup: fill the region-scoped entries reads use, for the
+// given regions or every region seen in the last day
+async function handleCacheWarmup(request: NextRequest, body: any, boundTo?: string) {
   try {
-    const { keys = [] } = body
+    const namespace = resolveNamespace(request, boundTo)
+    if (namespace.error) return namespaceError(namespace)
     
-    if (!Array.isArray(keys) || keys.length === 0) {
+    const target = parseWarmupTarget(body)
+    if (target.error) {
       return NextResponse.json(
-        createAPIResponse(null, { error: 'Keys array is required for warmup' }),
+        createAPIResponse(null, { error: target.error }),
         { status: 400 }
       )
     }
     
-    const results = []
+    const regions = target.regions || await listSeenRegions()
+    if (regions.length === 0) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'No regions seen in the last day; pass a regions array' }),
+        { status: 400 }
+      )
+    }
     
-    for (const key of keys) {
-      try {
-        // Trigger cache population by requesting the data
-        await cache.get(`data:${key}`, async () => {
-          const data = await db.get(key)
-          return data?.data || { message: `Default data for ${key}` }
-        })
-        
-        results.push({ key, status: 'warmed' })
-      } catch (error) {
-        results.push({ 
-          key, 
-          status: 'failed', 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        })
+    const run = await warmDocuments(namespace.name, target.keys, regions)
+    
+    return NextResponse.json(
+      createAPIResponse({
+        ...run,
+        report: `/api/data/cache?action=warmup&run=${run.id}`
+      }, {
+        message: `Warmed ${run.summary.warmed}/${run.summary.total} keys in ${regions.length} regions`
+      })
+    )
+    
+  } catch (error) {
+    throw new Error(`Cache warmup failed: ${error}`)
+  }
+}
+
+// Handle warmup scheduling; due jobs run on the next cron tick
+async function handleWarmupSchedule(request: NextRequest, body: any, boundTo?: string) {
+  try {
+    const namespace = resolveNamespace(request, boundTo)
+    if (namespace.error) return namespaceError(namespace)
+    
+    const target = parseWarmupTarget(body)
+    const interval = body.interval === undefined ? 60 : body.interval
+    
+    if (!target.error && (!Number.isInteger(interval) || interval < MIN_WARMUP_INTERVAL)) {
+      target.error = `Interval must be a whole number of minutes, at least ${MIN_WARMUP_INTERVAL}`
+    }
+    
+    if (target.error) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: target.error }),
+        { status: 400 }
+      )
+    }
+    
+    const job = await createWarmupJob(namespace.name, target.keys, target.regions, interval)
+    
+    return NextResponse.json(
+      createAPIResponse(job, { message: `Warmup scheduled every ${interval} minutes` }),
+      { status: 201 }
+    )
+    
+  } catch (error) {
+    throw new Error(`Failed to schedule warmup: ${error}`)
+  }
+}
+
+async function handleWarmupUnschedule(request: NextRequest, body: any, boundTo?: string) {
+  try {
+    const namespace = resolveNamespace(request, boundTo)
+    if (namespace.error) return namespaceError(namespace)
+    
+    if (typeof body.id !== 'string' || !(await deleteWarmupJob(namespace.name, body.id))) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `Warmup job not found: ${body.id}` }),
+        { status: 404 }
+      )
+    }
+    
+    return NextResponse.json(
+      createAPIResponse({ id: body.id }, { message: 'Warmup job removed' })
+    )
+    
+  } catch (error) {
+    throw new Error(`Failed to remove warmup job: ${error}`)
+  }
+}
+
+// Handle warmup reports: one run (?run=<id>) or every scheduled job, each with
+// the hit rate of reads in its regions since it last ran
+async function handleWarmupStatus(request: NextRequest, boundTo?: string) {
+  try {
+    const namespace = resolveNamespace(request, boundTo)
+    if (namespace.error) return namespaceError(namespace)
+    
+    const runId = request.nextUrl.searchParams.get('run')
+    
+    if (runId) {
+      const run = await getWarmupRun(runId)
+      
+      if (!run || run.namespace !== namespace.name) {
+        return NextResponse.json(
+          createAPIResponse(null, { error: `Warmup run not found: ${runId}` }),
+          { status: 404 }
+        )
       }
+      
+      return NextResponse.json(
+        createAPIResponse({ ...run, hitRate: await getHitRate(run.regions, new Date(run.startedAt)) })
+      )
+    }
+    
+    const jobs = []
+    for (const job of await listWarmupJobs(namespace.name)) {
+      const lastRun = job.lastRunId ? await getWarmupRun(job.lastRunId) : null
+      
+      jobs.push({
+        ...job,
+        lastRun: lastRun && {
+          summary: lastRun.summary,
+          regions: lastRun.regions,
+          hitRate: await getHitRate(lastRun.regions, new Date(lastRun.startedAt))
+        }
+      })
     }
     
     return NextResponse.json(
       createAPIResponse({
-        warmup: results,
-        summary: {
-          total: keys.length,
-          successful: results.filter(r => r.status === 'warmed').length,
-          failed: results.filter(r => r.status === 'failed').length
-        }
+        jobs,
+        seenRegions: await listSeenRegions()
       })
     )
     
   } catch (error) {
-    throw new Error(`Cache warmup failed: ${error}`)
+    throw new Error(`Failed to get warmup status: ${error}`)
+  }
+}
+
+// Handle scheduled warmups: run the jobs whose interval has passed
+async function handleWarmupRunDue(boundTo?: string) {
+  try {
+    const runs = await runDueWarmupJobs(boundTo)
+    
+    return NextResponse.json(
+      createAPIResponse({
+        runs: runs.map(run => ({ id: run.id, jobId: run.jobId, regions: run.regions, summary: run.summary }))
+      }, {
+        message: `Ran ${runs.length} due warmup jobs`
+      })
+    )
+    
+  } catch (error) {
+    throw new Error(`Scheduled warmup failed: ${error}`)
   }
-}
\ No newline at end of file
+}
+
+// Whether cache keys of a request are confined to its namespace: always for
+// keys bound to one, otherwise when a namespace other than the default is picked
+function isScoped(namespace: NamespaceResult, boundTo?: string): boolean {
+  return !!boundTo || namespace.name !== DEFAULT_NAMESPACE
+}
+
+// Cache entries are keyed "<kind>:<storage key>...", e.g. "data:users:US".
+// Move a cache key or pattern into a namespace by giving its key part the
+// namespace's storage prefix; null when the kind is not spelled out, since
+// such a pattern could match across namespaces.
+function toCacheScope(namespace: string, key: string): string | null {
+  const match = /^([a-z]+):(.+)$/.exec(key)
+  return match ? `${match[1]}:${toStorageKey(namespace, match[2])}` : null
+}
+
+// Whether a stored cache entry ("cache:<kind>:<storage key>...") belongs to a namespace
+function inCacheNamespace(namespace: string, cacheKey: string): boolean {
+  const entryKey = cacheKey.slice('cache:'.length)
+  return inNamespace(namespace, entryKey.slice(entryKey.indexOf(':') + 1))
+}
+
+// Reject a cache key or pattern that cannot be confined to a namespace
+function unscopedCacheKey(what: 'Key' | 'Pattern', namespace: string) {
+  return NextResponse.json(
+    createAPIResponse(null, {
+      error: `${what} must start with the kind of entry`,
+      message: `Within namespace "${namespace}", use e.g. "data:<key>:*" or "vary:<key>"`
+    }),
+    { status: 400 }
+  )
+}
+
+// Keys and regions of a warmup request; regions are null for "every seen region"
+function parseWarmupTarget(body: any): { keys: string[]; regions: string[] | null; error?: string } {
+  const { keys, regions = 'seen' } = body
+  
+  if (!Array.isArray(keys) || keys.length === 0) {
+    return { keys: [], regions: null, error: 'Keys array is required for warmup' }
+  }
+  
+  if (keys.length > MAX_WARMUP_KEYS) {
+    return { keys: [], regions: null, error: `Maximum ${MAX_WARMUP_KEYS} keys per warmup` }
+  }
+  
+  if (keys.some(key => typeof key !== 'string' || !key || isReservedKey(key))) {
+    return { keys: [], regions: null, error: 'Keys must be non-empty strings and may not be reserved keys' }
+  }
+  
+  if (regions === 'seen') {
+    return { keys, regions: null }
+  }
+  
+  if (!Array.isArray(regions) || regions.length === 0 || regions.length > MAX_WARMUP_REGIONS || !regions.every(isValidRegion)) {
+    return {
+      keys: [],
+      regions: null,
+      error: `Regions must be "seen" or an array of 1-${MAX_WARMUP_REGIONS} region codes, e.g. ["US", "DE"]`
+    }
+  }
+  
+  return { keys, regions: Array.from(new Set<string>(regions)) }
+}
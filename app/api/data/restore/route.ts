@@ -0,0 +1,151 @@
+// app/api/data/restore/route.ts - Roll a key back to an earlier version
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/database'
+import { cache } from '@/lib/cache'
+import { logUpdate } from '@/lib/updates'
+import { validateForKey } from '@/lib/schema'
+import { authError, authorizeWrite } from '@/lib/auth'
+import { loadQuota, namespaceError, quotaExceeded, resolveNamespace, toStorageKey, toStorageTags } from '@/lib/namespace'
+import { createAPIResponse, formatBytes } from '@/lib/utils'
+
+export const runtime = 'edge'
+export const dynamic = 'force-dynamic'
+
+// POST - Restore a key to a version number or to its state at a timestamp
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    const body = await request.json()
+    const { key, version, at, ttl } = body
+
+    if (!key) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Key is required' }),
+        { status: 400 }
+      )
+    }
+
+    const auth = await authorizeWrite(request.headers, [key])
+    if (!auth.allowed) return authError(auth)
+
+    const namespace = resolveNamespace(request, auth.namespace)
+    if (namespace.error) return namespaceError(namespace)
+    const storageKey = toStorageKey(namespace.name, key)
+
+    if ((version === undefined) === (at === undefined)) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Provide exactly one of "version" or "at"' }),
+        { status: 400 }
+      )
+    }
+
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Version must be a positive integer' }),
+        { status: 400 }
+      )
+    }
+
+    const atDate = at !== undefined ? new Date(at) : null
+    if (atDate && isNaN(atDate.getTime())) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Invalid "at" timestamp. Use ISO 8601 format' }),
+        { status: 400 }
+      )
+    }
+
+    const snapshot = atDate ? await db.getAt(storageKey, atDate) : await db.getVersion(storageKey, version)
+
+    if (!snapshot) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: 'Version not found',
+          message: atDate
+            ? `No retained version of "${key}" existed at ${atDate.toISOString()}`
+            : `Version ${version} of "${key}" does not exist or is no longer retained`
+        }),
+        { status: 404 }
+      )
+    }
+
+    if (snapshot.metadata?.deleted) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: 'Cannot restore a deletion',
+          message: `Version ${snapshot.version} of "${key}" is a delete tombstone. Pick an earlier version.`
+        }),
+        { status: 400 }
+      )
+    }
+
+    // Enforce the registered schema, if any
+    const schemaCheck = await validateForKey(storageKey, snapshot.data)
+    if (!schemaCheck.valid) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: 'Schema validation failed',
+          message: `Version ${snapshot.version} does not match schema ${schemaCheck.schema}`,
+          details: schemaCheck.errors
+        }),
+        { status: 400 }
+      )
+    }
+
+    // Enforce the namespace quota
+    const quotaError = (await loadQuota(namespace.name)).check(storageKey, snapshot.metadata?.size || 0)
+    if (quotaError) return quotaExceeded(quotaError)
+
+    // Write the snapshot back as a new version so the restore itself is undoable
+    const restored = await db.set(storageKey, snapshot.data, ttl, {
+      tags: snapshot.metadata?.tags,
+      vary: snapshot.metadata?.vary,
+      format: snapshot.metadata?.format
+    })
+
+    // Invalidate cache for this key (all regions) and everything sharing its tags
+    await cache.invalidateIndex(storageKey)
+    await cache.invalidateTags(toStorageTags(namespace.name, restored.metadata?.tags))
+
+    await logUpdate(storageKey, {
+      type: 'restore',
+      restoredFrom: snapshot.version,
+      version: restored.version,
+      size: restored.metadata?.size || 0
+    })
+
+    const responseTime = Date.now() - startTime
+
+    return NextResponse.json(
+      createAPIResponse(
+        {
+          key,
+          restoredFrom: snapshot.version,
+          restoredFromTimestamp: snapshot.timestamp,
+          version: restored.version,
+          size: formatBytes(restored.metadata?.size || 0),
+          ttl: ttl || 'permanent',
+          url: `/api/data?key=${key}`
+        },
+        {
+          message: `Restored "${key}" to version ${snapshot.version}`,
+          responseTime
+        }
+      ),
+      {
+        headers: { 'X-Response-Time': responseTime.toString() }
+      }
+    )
+
+  } catch (error) {
+    console.error('Restore error:', error)
+
+    return NextResponse.json(
+      createAPIResponse(null, {
+        error: 'Restore failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500 }
+    )
+  }
+}
@@ -1,21 +1,53 @@
 // app/api/data/route.ts - Main JSON data endpoint
 import { NextRequest, NextResponse } from 'next/server'
-import { db } from '@/lib/database'
-import { cache } from '@/lib/cache'
+import { db, getETag, MAX_FILE_SIZE } from '@/lib/database'
+import { cache, parseCacheTags } from '@/lib/cache'
+import { documentCacheKey, documentCacheOptions, fetchFreshData, getVaryPolicy } from '@/lib/documents'
+import { recordCacheRead } from '@/lib/warmup'
+import { acceptsEncoding, ContentEncoding } from '@/lib/compression'
+import {
+  CONTENT_TYPES,
+  describeParseError,
+  detectSourceFormat,
+  isRepresentation,
+  negotiateRepresentation,
+  ParseError,
+  parseSource,
+  Representation,
+  serialize,
+  SourceFormat,
+  StreamFormat,
+  streamItems,
+  streamNDJSON
+} from '@/lib/formats'
+import { logUpdate, purgeUpdateLog } from '@/lib/updates'
+import { applyJSONPatch, applyMergePatch } from '@/lib/patch'
+import { applySelector, describeSelector, parseSelector, Selector } from '@/lib/query'
+import { PageInfo, paginate, parsePagination } from '@/lib/pagination'
+import { validateForKey } from '@/lib/schema'
+import { authError, authorizeRead, authorizeWrite, READS_REQUIRE_AUTH } from '@/lib/auth'
+import { loadQuota, namespaceError, quotaExceeded, resolveNamespace, toStorageKey, toStorageTags } from '@/lib/namespace'
 import { 
   createAPIResponse, 
+  formatBytes,
   getClientIP, 
   getClientRegion, 
   validateJSON,
-  globalRateLimiter,
   performanceMonitor,
-  measureTime
+  measureTime,
+  matchesETag,
+  hashString,
+  parseVaryPolicy,
+  VaryPolicy,
+  waitUntil
 } from '@/lib/utils'
 
 export const runtime = 'edge'
 export const dynamic = 'force-dynamic'
 export const maxDuration = 5
 
+const ACCEPT_PATCH = 'application/json-patch+json, application/merge-patch+json'
+
 // GET - Fetch JSON data with caching
 export async function GET(request: NextRequest) {
   const startTime = Date.now()
@@ -24,55 +56,221 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams
     const key = searchParams.get('key') || 'default'
     const nocache = searchParams.get('nocache') === 'true'
-    const format = searchParams.get('format') || 'json'
+    const formatParam = searchParams.get('format')
+    const streamParam = searchParams.get('stream')
+    const versionParam = searchParams.get('version')
+    const atParam = searchParams.get('at')
     
     // Get client info
-    const clientIP = getClientIP(request.headers)
     const region = getClientRegion(request.headers)
     const city = request.headers.get('x-vercel-ip-city') || 'unknown'
     
-    // Rate limiting
-    if (!globalRateLimiter.isAllowed(clientIP)) {
+    const auth = await authorizeRead(request.headers, key)
+    if (!auth.allowed) return authError(auth)
+    
+    const namespace = resolveNamespace(request, auth.namespace)
+    if (namespace.error) return namespaceError(namespace)
+    const storageKey = toStorageKey(namespace.name, key)
+    
+    // Validate point-in-time parameters
+    const version = versionParam ? parseInt(versionParam) : null
+    if (versionParam && !/^[1-9]\d*$/.test(versionParam)) {
       return NextResponse.json(
-        createAPIResponse(null, {
-          error: 'Rate limit exceeded',
-          message: 'Too many requests. Please try again later.'
-        }),
-        { 
-          status: 429,
-          headers: {
-            'Retry-After': '60'
-          }
-        }
+        createAPIResponse(null, { error: 'Version must be a positive integer' }),
+        { status: 400 }
+      )
+    }
+    
+    const at = atParam ? new Date(atParam) : null
+    if (at && isNaN(at.getTime())) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Invalid "at" timestamp. Use ISO 8601 format' }),
+        { status: 400 }
+      )
+    }
+    
+    // Streamed reads (?stream=ndjson|json) send the data as it is serialized
+    if (streamParam !== null && streamParam !== 'ndjson' && streamParam !== 'json') {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Invalid stream. Use: ndjson, json' }),
+        { status: 400 }
+      )
+    }
+    
+    if (streamParam && formatParam) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Use either "stream" or "format", not both' }),
+        { status: 400 }
+      )
+    }
+    const stream = streamParam as StreamFormat | null
+    
+    // Representation: ?format= overrides the Accept header; a JSON stream is
+    // the raw data
+    const format = stream
+      ? (stream === 'ndjson' ? 'ndjson' : 'raw')
+      : formatParam || negotiateRepresentation(request.headers.get('accept'))
+    
+    if (!isRepresentation(format)) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `Invalid format. Use: ${Object.keys(CONTENT_TYPES).join(', ')}` }),
+        { status: 400 }
+      )
+    }
+    
+    // Sub-document selection (?pointer=, ?query=, ?fields=)
+    const { selector, error: selectorError } = parseSelector(searchParams)
+    if (selectorError) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Invalid selector', message: selectorError }),
+        { status: 400 }
+      )
+    }
+    
+    // Pages of a top-level array (?offset=&limit= or ?cursor=)
+    const { page, error: pageError } = parsePagination(searchParams)
+    if (pageError) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Invalid pagination', message: pageError }),
+        { status: 400 }
       )
     }
     
-    // Generate cache key with region context
-    const cacheKey = `data:${key}:${region}`
+    // Selections get their own entry under the document's key
+    // The document's variance policy picks the cache entry this request reads
+    const vary = await getVaryPolicy(storageKey)
+    const documentKey = documentCacheKey(storageKey, vary, {
+      region,
+      city,
+      consumer: auth.keyId,
+      headers: request.headers
+    })
+    const cacheKey = selector
+      ? `${documentKey}:select:${hashString(describeSelector(selector))}`
+      : documentKey
+    const cacheOptions = documentCacheOptions(namespace.name, storageKey)
+    
+    const fetchDocument = () => fetchFreshData(storageKey, region, city)
+    const fetchFresh = async () => {
+      const document = await fetchDocument()
+      return selector ? selectData(document, selector) : document
+    }
     
     let data: any = null
     let cacheStatus: 'hit' | 'miss' | 'stale' = 'miss'
+    let cacheWarning: string | undefined
+    
+    // Derive selections from the cached full document where possible; a
+    // selection of a stale document is stale too
+    const fetchCached = selector
+      ? async () => {
+          const document = await cache.lookup(documentKey, fetchDocument, cacheOptions)
+          cacheWarning = document.warning
+          return selectData(document.data, selector)
+        }
+      : fetchDocument
+    
+    // Streams of a whole document are read from its stored chunks one at a
+    // time rather than decoded through the cache; others stream what they read
+    const streamed = stream && !selector && !page && !version && !at
+      ? await db.getStored(storageKey)
+      : null
     
-    // If nocache, fetch fresh
-    if (nocache) {
-      const { result } = await measureTime(() => fetchFreshData(key, region, city))
+    // Historical reads come straight from the version history
+    if (streamed) {
+      data = streamed
+      cacheStatus = 'miss'
+    } else if (version || at) {
+      data = await fetchVersionedData(storageKey, region, city, { version, at })
+      
+      if (data && !data.metadata?.deleted && selector) {
+        data = selectData(data, selector)
+      }
+      
+      if (data?.metadata?.deleted) {
+        return NextResponse.json(
+          createAPIResponse(null, {
+            error: 'Version deleted',
+            message: `"${key}" was deleted at version ${data.version} (${data.timestamp})`
+          }),
+          { status: 410 }
+        )
+      }
+      
+      if (!data) {
+        return NextResponse.json(
+          createAPIResponse(null, {
+            error: 'Version not found',
+            message: version
+              ? `Version ${version} of "${key}" does not exist or is no longer retained`
+              : `No retained version of "${key}" existed at ${at!.toISOString()}`
+          }),
+          { status: 404 }
+        )
+      }
+    } else if (nocache) {
+      const { result } = await measureTime(fetchFresh)
       data = result
       cacheStatus = 'miss'
     } else {
-      // Try cache first
-      const { result: cachedData } = await measureTime(() => 
-        cache.get(cacheKey, () => fetchFreshData(key, region, city), 30)
+      // Try cache first. Concurrent misses share one fetch (across instances via
+      // the store lock); stale data is served while refreshing or when the origin fails
+      const { result: cached } = await measureTime(() =>
+        cache.lookup(cacheKey, fetchCached, cacheOptions)
       )
       
-      if (cachedData) {
-        data = cachedData
-        cacheStatus = 'hit'
-      } else {
-        // Fetch fresh data as fallback
-        const { result: freshData } = await measureTime(() => fetchFreshData(key, region, city))
-        data = freshData
-        cacheStatus = 'miss'
+      data = cached.data
+      cacheStatus = cacheWarning ? 'stale' : cached.status
+      cacheWarning = cached.warning || cacheWarning
+      
+      // Per-region read counts back the warmup hit-rate reports
+      waitUntil(recordCacheRead(region, cacheStatus))
+    }
+    
+    // A cursor keeps paging the version it was issued for, read from the
+    // history once the document has changed
+    if (page?.version && data?.version !== page.version) {
+      const pinned = await fetchVersionedData(storageKey, region, city, { version: page.version, at: null })
+      
+      if (!pinned || pinned.metadata?.deleted) {
+        return NextResponse.json(
+          createAPIResponse(null, {
+            error: 'Cursor expired',
+            message: `Version ${page.version} of "${key}" is no longer retained. Start again without a cursor.`
+          }),
+          { status: 410 }
+        )
+      }
+      
+      data = selector ? selectData(pinned, selector) : pinned
+      cacheStatus = 'miss'
+    }
+    
+    if (data?.metadata?.selection?.found === false) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: 'Pointer not found',
+          message: `"${selector?.pointer}" does not exist in "${key}"`
+        }),
+        { status: 404 }
+      )
+    }
+    
+    let pageInfo: PageInfo | undefined
+    if (page) {
+      if (!Array.isArray(data?.data)) {
+        return NextResponse.json(
+          createAPIResponse(null, {
+            error: 'Invalid pagination',
+            message: `Only arrays can be paginated; ${selector ? 'the selection' : `"${key}"`} is not one`
+          }),
+          { status: 400 }
+        )
       }
+      
+      const paged = paginate(data.data, page, data.version)
+      pageInfo = paged.page
+      data = { ...data, data: paged.items, metadata: { ...data.metadata, page: pageInfo } }
     }
     
     const responseTime = Date.now() - startTime
@@ -85,11 +283,70 @@ export async function GET(request: NextRequest) {
       timestamp: new Date().toISOString()
     })
     
+    // Raw reads of a compressed document get the stored bytes when the client
+    // takes their encoding, rather than decompressing and compressing again.
+    // A cached copy older than the stored record is sent the usual way.
+    const encoding: ContentEncoding | undefined = format === 'raw' && !selector && !version && !at && !page
+      ? data?.metadata?.compression
+      : undefined
+    const stored = encoding && acceptsEncoding(request.headers.get('accept-encoding'), encoding)
+      ? await db.getStored(storageKey)
+      : null
+    const encoded = stored && stored.version === data.version && stored.metadata?.compression === encoding
+    
+    // Stored documents carry an ETag, one per representation; generated defaults don't
+    const etag = data && data.metadata?.servedFrom !== 'default'
+      ? representationETag(getETag(data), format, encoded ? encoding : undefined, pageInfo)
+      : null
+    const headers = createResponseHeaders(cacheStatus, responseTime, etag, vary, format, namespace.bound)
+    if (cacheWarning) {
+      headers['Warning'] = cacheWarning
+    }
+    if (encoding) {
+      headers['Vary'] += ', Accept-Encoding'
+    }
+    if (pageInfo) {
+      headers['X-Total-Count'] = pageInfo.total.toString()
+      if (pageInfo.nextCursor) {
+        headers['Link'] = nextPageLink(request, pageInfo.nextCursor)
+      }
+    }
+    
+    // Other representations carry the document's data alone, like format=raw
+    let body: BodyInit | undefined
+    if (encoded) {
+      headers['Content-Encoding'] = encoding!
+      body = db.streamStored(stored)
+    } else if (streamed) {
+      body = stream === 'ndjson' ? streamNDJSON(db.streamData(streamed)) : db.streamData(streamed)
+    } else if (stream) {
+      body = streamItems(data?.data, stream)
+    } else if (format !== 'json' && format !== 'raw') {
+      const serialized = serialize(data?.data, format)
+      if (serialized.error) {
+        return NextResponse.json(
+          createAPIResponse(null, { error: 'Not Acceptable', message: serialized.error }),
+          { status: 406, headers: { 'Vary': 'Accept' } }
+        )
+      }
+      body = serialized.body as BodyInit
+    }
+    
+    // Conditional GET
+    const ifNoneMatch = request.headers.get('if-none-match')
+    if (ifNoneMatch && matchesETag(ifNoneMatch, etag, 'weak')) {
+      delete headers['Content-Type']
+      delete headers['Content-Encoding']
+      return new NextResponse(null, { status: 304, headers })
+    }
+    
     // Format response based on requested format
-    if (format === 'raw' && data?.data) {
-      return NextResponse.json(data.data, {
-        headers: createResponseHeaders(cacheStatus, responseTime)
-      })
+    if (body !== undefined) {
+      return new NextResponse(body, { headers })
+    }
+    
+    if (format === 'raw' && data?.data !== undefined) {
+      return NextResponse.json(data.data, { headers })
     }
     
     return NextResponse.json(
@@ -98,9 +355,7 @@ export async function GET(request: NextRequest) {
         region,
         responseTime
       }),
-      {
-        headers: createResponseHeaders(cacheStatus, responseTime)
-      }
+      { headers }
     )
     
   } catch (error) {
@@ -129,20 +384,9 @@ export async function POST(request: NextRequest) {
   const startTime = Date.now()
   
   try {
-    const clientIP = getClientIP(request.headers)
-    
-    // Rate limiting for updates (stricter)
-    if (!globalRateLimiter.isAllowed(`update:${clientIP}`)) {
-      return NextResponse.json(
-        createAPIResponse(null, {
-          error: 'Rate limit exceeded for updates'
-        }),
-        { status: 429 }
-      )
-    }
-    
     const contentType = request.headers.get('content-type') || ''
     let body: any
+    let sourceFormat: SourceFormat | undefined
     
     // Handle different content types
     if (contentType.includes('application/json')) {
@@ -151,21 +395,28 @@ export async function POST(request: NextRequest) {
       const formData = await request.formData()
       body = {
         key: formData.get('key'),
-        data: formData.get('data')
+        data: formData.get('data'),
+        tags: formData.get('tags'),
+        vary: formData.get('vary')
       }
       
-      // Handle file upload
+      // Handle file upload: JSON, YAML, CSV or NDJSON, parsed into JSON
       const file = formData.get('file') as File
       if (file) {
-        const text = await file.text()
-        try {
-          body.data = JSON.parse(text)
-        } catch {
+        sourceFormat = detectSourceFormat(file.name, file.type) || undefined
+        if (!sourceFormat) {
           return NextResponse.json(
-            createAPIResponse(null, { error: 'Invalid JSON file' }),
+            createAPIResponse(null, {
+              error: 'Unsupported file type',
+              message: 'Upload JSON, YAML, CSV or NDJSON (.json, .yaml, .yml, .csv, .ndjson, .jsonl)'
+            }),
             { status: 400 }
           )
         }
+        
+        const parsed = parseSource(await file.text(), sourceFormat)
+        if (parsed.error) return invalidFile(sourceFormat, parsed.error)
+        body.data = parsed.data
       }
     } else {
       return NextResponse.json(
@@ -176,6 +427,13 @@ export async function POST(request: NextRequest) {
     
     const { key = 'default', data, ttl } = body
     
+    const auth = await authorizeWrite(request.headers, [key])
+    if (!auth.allowed) return authError(auth)
+    
+    const namespace = resolveNamespace(request, auth.namespace)
+    if (namespace.error) return namespaceError(namespace)
+    const storageKey = toStorageKey(namespace.name, key)
+    
     if (!data) {
       return NextResponse.json(
         createAPIResponse(null, { error: 'Data is required' }),
@@ -183,6 +441,14 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    // Cache tags and variance policy from the body, or the X-Cache-Tags and
+    // X-Cache-Vary headers
+    const tags = parseCacheTags(body.tags ?? request.headers.get('x-cache-tags'))
+    if (tags.error) return invalidCacheOption('Invalid tags', tags.error)
+    
+    const vary = parseVaryPolicy(body.vary ?? request.headers.get('x-cache-vary'))
+    if (vary.error) return invalidCacheOption('Invalid vary policy', vary.error)
+    
     // Validate JSON
     const validation = validateJSON(data)
     if (!validation.valid) {
@@ -192,23 +458,49 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    // Check data size (max 10MB)
+    // Check data size (MAX_FILE_SIZE)
     const dataSize = JSON.stringify(data).length
-    if (dataSize > 10 * 1024 * 1024) {
+    if (dataSize > MAX_FILE_SIZE) {
       return NextResponse.json(
-        createAPIResponse(null, { error: 'Data too large (max 10MB)' }),
+        createAPIResponse(null, { error: `Data too large (max ${formatBytes(MAX_FILE_SIZE)})` }),
         { status: 413 }
       )
     }
     
-    // Store in database
-    await db.set(key, data, ttl)
+    // Enforce the registered schema, if any
+    const schemaCheck = await validateForKey(storageKey, data)
+    if (!schemaCheck.valid) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: 'Schema validation failed',
+          message: `Data does not match schema ${schemaCheck.schema}`,
+          details: schemaCheck.errors
+        }),
+        { status: 400 }
+      )
+    }
+    
+    // Enforce the namespace quota
+    const quotaError = (await loadQuota(namespace.name)).check(storageKey, dataSize)
+    if (quotaError) return quotaExceeded(quotaError)
     
-    // Invalidate cache for this key (all regions)
-    await cache.invalidatePattern(`data:${key}:*`)
+    // Store in database, rejecting stale writes
+    const write = await db.setIfMatch(storageKey, data, request.headers.get('if-match'), ttl, {
+      tags: tags.tags,
+      vary: vary.vary,
+      format: sourceFormat
+    })
+    if (!write.ok) {
+      return preconditionFailed(key, write.etag)
+    }
+    const record = write.record!
+    
+    // Invalidate cache for this key (all regions) and everything sharing its tags
+    await cache.invalidateIndex(storageKey)
+    await cache.invalidateTags(toStorageTags(namespace.name, record.metadata?.tags))
     
     // Track update
-    await db.increment(`updates:${key}`)
+    await db.increment(`updates:${storageKey}`)
     
     const responseTime = Date.now() - startTime
     
@@ -217,7 +509,11 @@ export async function POST(request: NextRequest) {
         {
           key,
           size: dataSize,
+          version: record.version,
           ttl: ttl || 'permanent',
+          ...(sourceFormat && { format: sourceFormat }),
+          ...(record.metadata?.tags && { tags: record.metadata.tags }),
+          ...(record.metadata?.vary && { vary: record.metadata.vary }),
           url: `/api/data?key=${key}`
         },
         {
@@ -227,7 +523,8 @@ export async function POST(request: NextRequest) {
       ),
       {
         headers: {
-          'X-Response-Time': responseTime.toString()
+          'X-Response-Time': responseTime.toString(),
+          'ETag': getETag(record)
         }
       }
     )
@@ -242,81 +539,455 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// PATCH - Partial update via JSON Patch (RFC 6902) or JSON Merge Patch (RFC 7396)
+export async function PATCH(request: NextRequest) {
+  const startTime = Date.now()
+  
+  try {
+    const key = request.nextUrl.searchParams.get('key')
+    const contentType = request.headers.get('content-type') || ''
+    
+    if (!key) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Key parameter is required' }),
+        { status: 400 }
+      )
+    }
+    
+    const auth = await authorizeWrite(request.headers, [key])
+    if (!auth.allowed) return authError(auth)
+    
+    const namespace = resolveNamespace(request, auth.namespace)
+    if (namespace.error) return namespaceError(namespace)
+    const storageKey = toStorageKey(namespace.name, key)
+    
+    const patchType = contentType.includes('application/json-patch+json')
+      ? 'json-patch'
+      : contentType.includes('application/merge-patch+json')
+        ? 'merge-patch'
+        : null
+    
+    if (!patchType) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: 'Unsupported patch format. Use application/json-patch+json or application/merge-patch+json'
+        }),
+        { status: 415, headers: { 'Accept-Patch': ACCEPT_PATCH } }
+      )
+    }
+    
+    let patch: any
+    try {
+      patch = await request.json()
+    } catch {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Patch body must be valid JSON' }),
+        { status: 400 }
+      )
+    }
+    
+    const tags = parseCacheTags(request.headers.get('x-cache-tags'))
+    if (tags.error) return invalidCacheOption('Invalid tags', tags.error)
+    
+    const vary = parseVaryPolicy(request.headers.get('x-cache-vary'))
+    if (vary.error) return invalidCacheOption('Invalid vary policy', vary.error)
+    
+    const current = await db.get(storageKey)
+    if (!current) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `Key not found: ${key}` }),
+        { status: 404 }
+      )
+    }
+    
+    const ifMatch = request.headers.get('if-match')
+    if (ifMatch && !matchesETag(ifMatch, getETag(current))) {
+      return preconditionFailed(key, getETag(current))
+    }
+    
+    // Apply against a copy; nothing is written unless every operation succeeds
+    let data: any
+    if (patchType === 'json-patch') {
+      const result = applyJSONPatch(current.data, patch)
+      if (!result.valid) {
+        return NextResponse.json(
+          createAPIResponse(null, { error: 'Patch failed', message: result.error }),
+          { status: 422 }
+        )
+      }
+      data = result.data
+    } else {
+      data = applyMergePatch(current.data, patch)
+    }
+    
+    // Validate JSON
+    const validation = validateJSON(data)
+    if (!validation.valid) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: validation.error }),
+        { status: 422 }
+      )
+    }
+    
+    // Check data size (MAX_FILE_SIZE)
+    const dataSize = JSON.stringify(data).length
+    if (dataSize > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `Patched data too large (max ${formatBytes(MAX_FILE_SIZE)})` }),
+        { status: 413 }
+      )
+    }
+    
+    // Enforce the registered schema, if any
+    const schemaCheck = await validateForKey(storageKey, data)
+    if (!schemaCheck.valid) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: 'Schema validation failed',
+          message: `Data does not match schema ${schemaCheck.schema}`,
+          details: schemaCheck.errors
+        }),
+        { status: 400 }
+      )
+    }
+    
+    // Enforce the namespace quota
+    const quotaError = (await loadQuota(namespace.name)).check(storageKey, dataSize)
+    if (quotaError) return quotaExceeded(quotaError)
+    
+    // Keep whatever lifetime the document had left
+    const expires = current.metadata?.expires ? new Date(current.metadata.expires).getTime() : null
+    const ttl = expires ? Math.max(1, Math.ceil((expires - Date.now()) / 1000)) : undefined
+    
+    // Written only over the version the patch was applied to
+    const write = await db.setIf(storageKey, data, current, ttl, { tags: tags.tags, vary: vary.vary })
+    if (!write.ok) {
+      if (ifMatch) return preconditionFailed(key, write.etag)
+      
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: 'Conflict',
+          message: `"${key}" changed while the patch was applied. Retry the request.`
+        }),
+        { status: 409 }
+      )
+    }
+    const record = write.record!
+    
+    // Invalidate cache for this key (all regions) and everything sharing its tags
+    await cache.invalidateIndex(storageKey)
+    await cache.invalidateTags(toStorageTags(namespace.name, record.metadata?.tags))
+    
+    await logUpdate(storageKey, {
+      type: 'patch',
+      patchType,
+      patch,
+      fromVersion: current.version,
+      version: record.version,
+      size: dataSize
+    })
+    
+    const responseTime = Date.now() - startTime
+    
+    return NextResponse.json(
+      createAPIResponse(
+        {
+          key,
+          size: dataSize,
+          version: record.version,
+          patchType,
+          url: `/api/data?key=${key}`
+        },
+        {
+          message: 'Data patched successfully',
+          responseTime
+        }
+      ),
+      {
+        headers: {
+          'X-Response-Time': responseTime.toString(),
+          'ETag': getETag(record)
+        }
+      }
+    )
+    
+  } catch (error) {
+    console.error('Patch error:', error)
+    
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Patch failed' }),
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove a key; ?soft=true keeps a tombstone version in history
+export async function DELETE(request: NextRequest) {
+  const startTime = Date.now()
+  
+  try {
+    const clientIP = getClientIP(request.headers)
+    
+    const searchParams = request.nextUrl.searchParams
+    const key = searchParams.get('key')
+    const soft = searchParams.get('soft') === 'true'
+    const logs = searchParams.get('logs') || 'keep'
+    
+    if (!key) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Key parameter is required' }),
+        { status: 400 }
+      )
+    }
+    
+    const auth = await authorizeWrite(request.headers, [key])
+    if (!auth.allowed) return authError(auth)
+    
+    const namespace = resolveNamespace(request, auth.namespace)
+    if (namespace.error) return namespaceError(namespace)
+    const storageKey = toStorageKey(namespace.name, key)
+    
+    if (logs !== 'keep' && logs !== 'purge') {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Invalid logs policy. Use: keep, purge' }),
+        { status: 400 }
+      )
+    }
+    
+    const tags = parseCacheTags(request.headers.get('x-cache-tags'))
+    if (tags.error) return invalidCacheOption('Invalid tags', tags.error)
+    
+    const ifMatch = request.headers.get('if-match')
+    const precondition = await db.checkIfMatch(storageKey, ifMatch)
+    if (!precondition.ok) {
+      return preconditionFailed(key, precondition.etag)
+    }
+    
+    // A hard delete may still purge the history of an already soft-deleted key
+    const current = precondition.current
+    if (!current && (soft || (await db.listVersions(storageKey)).length === 0)) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `Key not found: ${key}` }),
+        { status: 404 }
+      )
+    }
+    
+    // The precondition is checked again as the document is removed
+    const deletion = await db.deleteDocument(storageKey, { soft, ifMatch })
+    if (!deletion.ok) {
+      return preconditionFailed(key, deletion.etag)
+    }
+    const tombstone = deletion.tombstone
+    
+    // Invalidate cache for this key (all regions), its tags and any declared ones
+    await cache.invalidateIndex(storageKey)
+    await cache.invalidateTags(toStorageTags(namespace.name, [...(current?.metadata?.tags || []), ...(tags.tags || [])]))
+    
+    // Apply the log policy, then record the deletion itself
+    const purgedLogEntries = logs === 'purge' ? await purgeUpdateLog(storageKey) : 0
+    await logUpdate(storageKey, {
+      type: 'delete',
+      mode: soft ? 'soft' : 'hard',
+      logs,
+      ...(tombstone && { version: tombstone.version }),
+      clientIP
+    })
+    
+    const responseTime = Date.now() - startTime
+    
+    return NextResponse.json(
+      createAPIResponse(
+        {
+          key,
+          mode: soft ? 'soft' : 'hard',
+          ...(tombstone && { tombstoneVersion: tombstone.version }),
+          logs,
+          purgedLogEntries
+        },
+        {
+          message: soft
+            ? 'Key soft-deleted; restore it from version history'
+            : 'Key and its version history deleted',
+          responseTime
+        }
+      ),
+      {
+        headers: { 'X-Response-Time': responseTime.toString() }
+      }
+    )
+    
+  } catch (error) {
+    console.error('Delete error:', error)
+    
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Delete failed' }),
+      { status: 500 }
+    )
+  }
+}
+
 // OPTIONS - Handle CORS preflight
 export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
     status: 200,
     headers: {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, X-Namespace, X-Cache-Tags, X-Cache-Vary, If-Match, If-None-Match',
+      'Access-Control-Expose-Headers': 'ETag, Warning, Link, X-Total-Count, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy',
       'Access-Control-Max-Age': '86400',
+      'Accept-Patch': ACCEPT_PATCH,
     }
   })
 }
 
-// Helper function to fetch fresh data
-async function fetchFreshData(key: string, region: string, city: string) {
-  // Try to get from database first
-  const dbData = await db.get(key)
+// Helper to fetch a historical version of a key
+async function fetchVersionedData(
+  key: string,
+  region: string,
+  city: string,
+  options: { version: number | null; at: Date | null }
+) {
+  const dbData = options.version
+    ? await db.getVersion(key, options.version)
+    : await db.getAt(key, options.at!)
   
-  if (dbData) {
-    return {
-      ...dbData,
-      metadata: {
-        ...dbData.metadata,
-        cacheStatus: 'fresh',
-        region,
-        city,
-        servedFrom: 'database'
-      }
-    }
+  if (!dbData) {
+    return null
   }
   
-  // Return default data if key doesn't exist
   return {
-    id: key,
-    data: {
-      message: `Hello from ${city}, ${region}!`,
-      timestamp: new Date().toISOString(),
-      version: '1.0.0',
+    ...dbData,
+    metadata: {
+      ...dbData.metadata,
       region,
       city,
-      servedFrom: 'default',
-      performance: {
-        responseTime: '1-50ms',
-        cache: 'miss'
-      }
-    },
-    timestamp: new Date().toISOString(),
-    version: 1,
+      servedFrom: 'history'
+    }
+  }
+}
+
+// Helper to narrow a document to the selected sub-document
+function selectData(document: any, selector: Selector) {
+  const selection = applySelector(document.data, selector)
+  
+  return {
+    ...document,
+    data: selection.value,
     metadata: {
-      generatedAt: new Date().toISOString(),
-      cacheStatus: 'fresh',
-      size: 0,
-      format: 'json',
-      region,
-      city
+      ...document.metadata,
+      selection: { ...selector, found: selection.found }
     }
   }
 }
 
+// Helper to reject malformed cache tags or variance policies
+function invalidCacheOption(error: string, message: string) {
+  return NextResponse.json(
+    createAPIResponse(null, { error, message }),
+    { status: 400 }
+  )
+}
+
+// Helper to reject an uploaded file that does not parse, pointing at the error
+function invalidFile(format: SourceFormat, error: ParseError) {
+  return NextResponse.json(
+    createAPIResponse(null, {
+      error: `Invalid ${format.toUpperCase()} file`,
+      message: describeParseError(error),
+      details: error
+    }),
+    { status: 400 }
+  )
+}
+
+// Helper to reject a write whose If-Match no longer matches
+function preconditionFailed(key: string, currentETag: string | null) {
+  return NextResponse.json(
+    createAPIResponse(null, {
+      error: 'Precondition Failed',
+      message: currentETag
+        ? `"${key}" has changed since it was read. Fetch the latest version and retry.`
+        : `"${key}" does not exist`
+    }),
+    {
+      status: 412,
+      headers: currentETag ? { 'ETag': currentETag } : {}
+    }
+  )
+}
+
+// Helper to give each representation, page and content encoding of a
+// document its own entity tag; uncompressed JSON keeps the document's
+function representationETag(
+  etag: string,
+  format: Representation,
+  encoding?: ContentEncoding,
+  page?: PageInfo
+): string {
+  let suffix = format === 'json' || format === 'raw' ? '' : `-${format}`
+  if (page) suffix += `-${page.offset}-${page.limit}`
+  if (encoding) suffix += `-${encoding}`
+  return suffix ? `${etag.slice(0, -1)}${suffix}"` : etag
+}
+
+// Helper to link the following page of a paginated read; the cursor carries
+// the offset and limit
+function nextPageLink(request: NextRequest, cursor: string): string {
+  const params = new URLSearchParams(request.nextUrl.searchParams)
+  params.delete('offset')
+  params.delete('limit')
+  params.set('cursor', cursor)
+  return `<${request.nextUrl.pathname}?${params.toString()}>; rel="next"`
+}
+
 // Helper to create consistent response headers
-function createResponseHeaders(cacheStatus: 'hit' | 'miss' | 'stale', responseTime: number) {
+function createResponseHeaders(
+  cacheStatus: 'hit' | 'miss' | 'stale',
+  responseTime: number,
+  etag?: string | null,
+  vary?: VaryPolicy,
+  format: Representation = 'json',
+  keyBound: boolean = false
+) {
   const headers: Record<string, string> = {
     'X-Edge-Runtime': 'true',
     'X-Cache-Status': cacheStatus,
     'X-Response-Time': responseTime.toString(),
     'Access-Control-Allow-Origin': '*',
-    'Content-Type': 'application/json; charset=utf-8'
+    'Access-Control-Expose-Headers': 'ETag, Warning, Link, X-Total-Count, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy',
+    'Content-Type': CONTENT_TYPES[format],
+    // Representations are negotiated and namespaces may be picked by header,
+    // so shared caches keep one per Accept and X-Namespace value
+    'Vary': vary?.startsWith('header:') ? `Accept, X-Namespace, ${vary.slice('header:'.length)}` : 'Accept, X-Namespace'
+  }
+  
+  if (etag) {
+    headers['ETag'] = etag
+  }
+  
+  // A CDN would serve a read made with a key to callers without one
+  if (READS_REQUIRE_AUTH) {
+    headers['Cache-Control'] = 'private, no-store'
+    return headers
   }
   
   if (cacheStatus === 'hit') {
     headers['Cache-Control'] = 'public, s-maxage=30, stale-while-revalidate=59'
+  } else if (cacheStatus === 'stale') {
+    // Let the CDN come back soon for the refreshed entry
+    headers['Cache-Control'] = 'public, s-maxage=1, stale-while-revalidate=59'
   } else {
     headers['Cache-Control'] = 'public, s-maxage=10, stale-while-revalidate=50'
   }
   
+  // Per-consumer reads, and reads of the namespace an API key is bound to,
+  // must not be shared through the CDN
+  if (vary === 'consumer' || keyBound) {
+    headers['Cache-Control'] = headers['Cache-Control'].replace('public', 'private')
+    return headers
+  }
+  
   headers['CDN-Cache-Control'] = 'public, s-maxage=60'
   headers['Vercel-CDN-Cache-Control'] = 'public, s-maxage=3600'
   
@@ -0,0 +1,183 @@
+// app/api/data/schemas/route.ts - JSON Schema registry endpoint
+import { NextRequest, NextResponse } from 'next/server'
+import { isReservedKey } from '@/lib/database'
+import { authError, authorize, authorizeWrite } from '@/lib/auth'
+import { fromStorageKey, inNamespace, namespaceError, resolveNamespace, toStorageKey } from '@/lib/namespace'
+import { checkSchema, findSchema, getSchemaRegistry, registerSchema, removeSchema, SchemaEntry } from '@/lib/schema'
+import { createAPIResponse } from '@/lib/utils'
+
+export const runtime = 'edge'
+export const dynamic = 'force-dynamic'
+
+// GET - List registered schemas, or the schema that applies to ?key=
+export async function GET(request: NextRequest) {
+  try {
+    const key = request.nextUrl.searchParams.get('key')
+
+    const auth = await authorize(request.headers, 'read')
+    if (!auth.allowed) return authError(auth)
+
+    const namespace = resolveNamespace(request, auth.namespace)
+    if (namespace.error) return namespaceError(namespace)
+
+    const registry = await getSchemaRegistry()
+
+    if (key) {
+      const entry = findSchema(registry, toStorageKey(namespace.name, key))
+
+      if (!entry) {
+        return NextResponse.json(
+          createAPIResponse(null, { error: `No schema registered for key: ${key}` }),
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json(createAPIResponse({ key, ...toNamespaceEntry(namespace.name, entry) }), {
+        headers: { 'Cache-Control': 'no-store' }
+      })
+    }
+
+    const schemas = Object.keys(registry)
+      .sort()
+      .map(id => registry[id])
+      .filter(entry => inNamespace(namespace.name, entry.match))
+      .map(entry => toNamespaceEntry(namespace.name, entry))
+
+    return NextResponse.json(
+      createAPIResponse({ total: schemas.length, schemas }),
+      {
+        headers: { 'Cache-Control': 'no-store' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Schema list error:', error)
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Failed to fetch schemas' }),
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Register a schema for a key or key prefix
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { key, prefix, schema } = body
+
+    if ((key === undefined) === (prefix === undefined)) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Provide exactly one of "key" or "prefix"' }),
+        { status: 400 }
+      )
+    }
+
+    const match = key !== undefined ? key : prefix
+    if (typeof match !== 'string' || match === '') {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `"${key !== undefined ? 'key' : 'prefix'}" must be a non-empty string` }),
+        { status: 400 }
+      )
+    }
+
+    if (isReservedKey(match)) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Cannot register a schema for reserved keys' }),
+        { status: 400 }
+      )
+    }
+
+    // Defining a schema needs write access to the keys it governs
+    const auth = await authorizeWrite(request.headers, [match])
+    if (!auth.allowed) return authError(auth)
+
+    const namespace = resolveNamespace(request, auth.namespace)
+    if (namespace.error) return namespaceError(namespace)
+
+    if (schema === undefined) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Schema is required' }),
+        { status: 400 }
+      )
+    }
+
+    const schemaError = checkSchema(schema)
+    if (schemaError) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Invalid schema', message: schemaError }),
+        { status: 400 }
+      )
+    }
+
+    const entry = toNamespaceEntry(
+      namespace.name,
+      await registerSchema(key !== undefined ? 'key' : 'prefix', toStorageKey(namespace.name, match), schema)
+    )
+
+    return NextResponse.json(
+      createAPIResponse(entry, {
+        message: `Schema registered for ${entry.type} "${entry.match}"`
+      })
+    )
+
+  } catch (error) {
+    console.error('Schema register error:', error)
+    return NextResponse.json(
+      createAPIResponse(null, {
+        error: 'Failed to register schema',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove the schema for ?key= or ?prefix=
+export async function DELETE(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const key = searchParams.get('key')
+    const prefix = searchParams.get('prefix')
+
+    if (!key === !prefix) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Provide exactly one of "key" or "prefix"' }),
+        { status: 400 }
+      )
+    }
+
+    const type = key ? 'key' : 'prefix'
+    const match = (key || prefix) as string
+
+    const auth = await authorizeWrite(request.headers, [match])
+    if (!auth.allowed) return authError(auth)
+
+    const namespace = resolveNamespace(request, auth.namespace)
+    if (namespace.error) return namespaceError(namespace)
+
+    if (!(await removeSchema(type, toStorageKey(namespace.name, match)))) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `No schema registered for ${type}: ${match}` }),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      createAPIResponse({ type, match }, {
+        message: `Schema removed for ${type} "${match}"`
+      })
+    )
+
+  } catch (error) {
+    console.error('Schema delete error:', error)
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Failed to remove schema' }),
+      { status: 500 }
+    )
+  }
+}
+
+// Report a registry entry with the key or prefix as the namespace sees it
+function toNamespaceEntry(namespace: string, entry: SchemaEntry): SchemaEntry {
+  return { ...entry, match: fromStorageKey(namespace, entry.match) }
+}
@@ -0,0 +1,73 @@
+// app/api/data/versions/route.ts - Version history endpoint
+import { NextRequest, NextResponse } from 'next/server'
+import { db, VERSION_RETENTION } from '@/lib/database'
+import { authError, authorizeRead } from '@/lib/auth'
+import { namespaceError, resolveNamespace, toStorageKey } from '@/lib/namespace'
+import { createAPIResponse, formatBytes } from '@/lib/utils'
+
+export const runtime = 'edge'
+export const dynamic = 'force-dynamic'
+
+// GET - List retained versions of a key
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const key = searchParams.get('key')
+
+    if (!key) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Key parameter is required' }),
+        { status: 400 }
+      )
+    }
+
+    const auth = await authorizeRead(request.headers, key)
+    if (!auth.allowed) return authError(auth)
+
+    const namespace = resolveNamespace(request, auth.namespace)
+    if (namespace.error) return namespaceError(namespace)
+    const storageKey = toStorageKey(namespace.name, key)
+
+    const history = await db.listVersions(storageKey)
+
+    if (history.length === 0) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `No versions found for key: ${key}` }),
+        { status: 404 }
+      )
+    }
+
+    // Newest first, with a link to each point-in-time read
+    const versions = history
+      .slice()
+      .reverse()
+      .map(v => ({
+        version: v.version,
+        timestamp: v.timestamp,
+        size: v.size,
+        sizeFormatted: formatBytes(v.size),
+        deleted: v.deleted || false,
+        url: `/api/data?key=${encodeURIComponent(key)}&version=${v.version}`
+      }))
+
+    return NextResponse.json(
+      createAPIResponse({
+        key,
+        currentVersion: versions[0].version,
+        retention: VERSION_RETENTION,
+        total: versions.length,
+        versions
+      }),
+      {
+        headers: { 'Cache-Control': 'no-store' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Version history error:', error)
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Failed to fetch version history' }),
+      { status: 500 }
+    )
+  }
+}
@@ -60,6 +60,7 @@ export async function GET(request: NextRequest) {
       environment: {
         nodeEnv: process.env.NODE_ENV || 'unknown',
         vercelEnv: process.env.VERCEL_ENV || 'unknown',
+        storageDriver: db.driver,
         deployment: process.env.VERCEL_URL || 'local'
       }
     }
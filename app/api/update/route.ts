@@ -1,33 +1,65 @@
 // app/api/update/route.ts - File upload and bulk update endpoint
 import { NextRequest, NextResponse } from 'next/server'
-import { db } from '@/lib/database'
-import { cache } from '@/lib/cache'
+import { db, getETag, JSONData, MAX_FILE_SIZE, WriteOptions } from '@/lib/database'
+import { cache, parseCacheTags } from '@/lib/cache'
+import { describeParseError, detectSourceFormat, ParseError, parseSource, SourceFormat } from '@/lib/formats'
+import { getBatch, listUpdateLog, LOG_SUFFIX, logBatch, logUpdate, purgeUpdateLog } from '@/lib/updates'
+import { getSchemaRegistry, SchemaRegistry, validateForKey } from '@/lib/schema'
+import { authError, authorize, authorizeWrite } from '@/lib/auth'
+import {
+  fromStorageKey,
+  inNamespace,
+  loadQuota,
+  namespaceError,
+  QuotaTracker,
+  quotaExceeded,
+  resolveNamespace,
+  toStorageKey,
+  toStorageTags
+} from '@/lib/namespace'
 import { 
   createAPIResponse, 
   validateJSON, 
   formatBytes,
   getClientIP,
-  globalRateLimiter 
+  parseVaryPolicy,
+  VaryPolicy
 } from '@/lib/utils'
 
 export const runtime = 'edge'
 export const dynamic = 'force-dynamic'
 
+// What every item of a bulk update is checked against
+type BulkContext = {
+  namespace: string
+  defaultTags: { tags?: string[]; error?: string }
+  defaultVary: { vary?: VaryPolicy; error?: string }
+  schemaRegistry: SchemaRegistry
+  quota: QuotaTracker
+}
+
+// A checked bulk item: ready to write, or the failure to report
+type BulkCheck = {
+  item?: {
+    key: string
+    storageKey: string
+    data: any
+    size: number
+    tags?: string[]
+    vary?: VaryPolicy
+    // The item's If-Match, and the stored record it matched
+    ifMatch?: string
+    expected?: JSONData | null
+  }
+  failure?: any
+  size?: number
+}
+
 // POST - Handle file uploads and bulk updates
 export async function POST(request: NextRequest) {
   const startTime = Date.now()
   
   try {
-    const clientIP = getClientIP(request.headers)
-    
-    // Strict rate limiting for uploads
-    if (!globalRateLimiter.isAllowed(`upload:${clientIP}`)) {
-      return NextResponse.json(
-        createAPIResponse(null, { error: 'Upload rate limit exceeded' }),
-        { status: 429 }
-      )
-    }
-    
     const contentType = request.headers.get('content-type') || ''
     
     if (contentType.includes('multipart/form-data')) {
@@ -59,6 +91,133 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// DELETE - Bulk delete keys
+export async function DELETE(request: NextRequest) {
+  const startTime = Date.now()
+  
+  try {
+    const clientIP = getClientIP(request.headers)
+    
+    const body = await request.json()
+    const { keys = [], soft = false, logs = 'keep' } = body || {}
+    
+    const declared = parseCacheTags(body?.tags ?? request.headers.get('x-cache-tags'))
+    if (declared.error) return invalidCacheOption('Invalid tags', declared.error)
+    
+    if (!Array.isArray(keys) || keys.length === 0) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Keys array is required for bulk delete' }),
+        { status: 400 }
+      )
+    }
+    
+    if (keys.length > 100) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Maximum 100 keys per bulk delete' }),
+        { status: 400 }
+      )
+    }
+    
+    if (keys.some((key: any) => typeof key !== 'string' || key === '')) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Keys must be non-empty strings' }),
+        { status: 400 }
+      )
+    }
+    
+    const auth = await authorizeWrite(request.headers, keys)
+    if (!auth.allowed) return authError(auth)
+    
+    const namespace = resolveNamespace(request, auth.namespace)
+    if (namespace.error) return namespaceError(namespace)
+    
+    if (logs !== 'keep' && logs !== 'purge') {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Invalid logs policy. Use: keep, purge' }),
+        { status: 400 }
+      )
+    }
+    
+    const results = []
+    const tags = new Set<string>(declared.tags)
+    
+    for (const key of keys) {
+      const storageKey = toStorageKey(namespace.name, key)
+      
+      try {
+        const current = await db.get(storageKey)
+        if (!current && (soft || (await db.listVersions(storageKey)).length === 0)) {
+          results.push({ key, status: 'failed', error: 'Key not found' })
+          continue
+        }
+        
+        const { tombstone } = await db.deleteDocument(storageKey, { soft })
+        
+        // Invalidate cache; tagged entries go once the batch is done
+        await cache.invalidateIndex(storageKey)
+        current?.metadata?.tags?.forEach(tag => tags.add(tag))
+        
+        // Apply the log policy, then record the deletion itself
+        if (logs === 'purge') {
+          await purgeUpdateLog(storageKey)
+        }
+        await logUpdate(storageKey, {
+          type: 'delete',
+          mode: soft ? 'soft' : 'hard',
+          logs,
+          bulk: true,
+          ...(tombstone && { version: tombstone.version }),
+          clientIP
+        })
+        
+        results.push({ key, status: 'deleted', ...(tombstone && { tombstoneVersion: tombstone.version }) })
+        
+      } catch (error) {
+        results.push({ 
+          key, 
+          status: 'failed', 
+          error: error instanceof Error ? error.message : 'Unknown error' 
+        })
+      }
+    }
+    
+    await cache.invalidateTags(toStorageTags(namespace.name, Array.from(tags)))
+    
+    const responseTime = Date.now() - startTime
+    const successful = results.filter(r => r.status === 'deleted').length
+    
+    return NextResponse.json(
+      createAPIResponse({
+        results,
+        summary: {
+          total: keys.length,
+          successful,
+          failed: keys.length - successful,
+          mode: soft ? 'soft' : 'hard',
+          logs
+        }
+      }, {
+        message: `Bulk delete completed: ${successful}/${keys.length} successful`,
+        responseTime
+      }),
+      {
+        headers: { 'X-Response-Time': responseTime.toString() }
+      }
+    )
+    
+  } catch (error) {
+    console.error('Bulk delete error:', error)
+    
+    return NextResponse.json(
+      createAPIResponse(null, { 
+        error: 'Bulk delete failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500 }
+    )
+  }
+}
+
 // GET - Get update history and statistics
 export async function GET(request: NextRequest) {
   try {
@@ -67,26 +226,25 @@ export async function GET(request: NextRequest) {
     const action = searchParams.get('action') || 'history'
     const limit = parseInt(searchParams.get('limit') || '10')
     
-    const clientIP = getClientIP(request.headers)
+    const auth = await authorize(request.headers, 'read')
+    if (!auth.allowed) return authError(auth)
     
-    // Rate limiting
-    if (!globalRateLimiter.isAllowed(`update-get:${clientIP}`)) {
-      return NextResponse.json(
-        createAPIResponse(null, { error: 'Rate limit exceeded' }),
-        { status: 429 }
-      )
-    }
+    const namespace = resolveNamespace(request, auth.namespace)
+    if (namespace.error) return namespaceError(namespace)
     
     switch (action) {
       case 'history':
-        return await handleUpdateHistory(key, limit)
+        return await handleUpdateHistory(namespace.name, key, limit)
         
       case 'stats':
-        return await handleUpdateStats(key)
+        return await handleUpdateStats(namespace.name, key)
+        
+      case 'batch':
+        return await handleBatchLookup(namespace.name, searchParams.get('id'))
         
       default:
         return NextResponse.json(
-          createAPIResponse(null, { error: 'Invalid action. Use: history, stats' }),
+          createAPIResponse(null, { error: 'Invalid action. Use: history, stats, batch' }),
           { status: 400 }
         )
     }
@@ -106,6 +264,15 @@ async function handleFileUpload(request: NextRequest, startTime: number) {
   const key = formData.get('key') as string || 'default'
   const file = formData.get('file') as File
   const ttl = formData.get('ttl') as string
+  const tags = parseCacheTags(formData.get('tags') ?? request.headers.get('x-cache-tags'))
+  const vary = parseVaryPolicy(formData.get('vary') ?? request.headers.get('x-cache-vary'))
+  
+  const auth = await authorizeWrite(request.headers, [key])
+  if (!auth.allowed) return authError(auth)
+  
+  const namespace = resolveNamespace(request, auth.namespace)
+  if (namespace.error) return namespaceError(namespace)
+  const storageKey = toStorageKey(namespace.name, key)
   
   if (!file) {
     return NextResponse.json(
@@ -114,37 +281,44 @@ async function handleFileUpload(request: NextRequest, startTime: number) {
     )
   }
   
-  // Check file size (max 10MB)
-  if (file.size > 10 * 1024 * 1024) {
+  if (tags.error) return invalidCacheOption('Invalid tags', tags.error)
+  if (vary.error) return invalidCacheOption('Invalid vary policy', vary.error)
+  
+  // Check file size (MAX_FILE_SIZE)
+  if (file.size > MAX_FILE_SIZE) {
     return NextResponse.json(
       createAPIResponse(null, { 
-        error: `File too large. Maximum size: 10MB, received: ${formatBytes(file.size)}` 
+        error: `File too large. Maximum size: ${formatBytes(MAX_FILE_SIZE)}, received: ${formatBytes(file.size)}` 
       }),
       { status: 413 }
     )
   }
   
   // Check file type
-  if (!file.type.includes('json') && !file.name.endsWith('.json')) {
+  const format = detectSourceFormat(file.name, file.type)
+  if (!format) {
     return NextResponse.json(
-      createAPIResponse(null, { error: 'File must be a JSON file' }),
+      createAPIResponse(null, {
+        error: 'Unsupported file type',
+        message: 'Upload JSON, YAML, CSV or NDJSON (.json, .yaml, .yml, .csv, .ndjson, .jsonl)'
+      }),
       { status: 400 }
     )
   }
   
-  // Read and parse file
-  const text = await file.text()
-  let data: any
+  // Read and parse file into JSON
+  const parsed = parseSource(await file.text(), format)
+  if (parsed.error) return invalidFile(format, parsed.error)
+  const data = parsed.data
   
-  try {
-    data = JSON.parse(text)
-  } catch (parseError) {
+  // Check the parsed size too: YAML, CSV and NDJSON can expand when converted
+  const dataSize = JSON.stringify(data).length
+  if (dataSize > MAX_FILE_SIZE) {
     return NextResponse.json(
       createAPIResponse(null, { 
-        error: 'Invalid JSON file',
-        message: parseError instanceof Error ? parseError.message : 'JSON parse failed'
+        error: `Data too large. Maximum size: ${formatBytes(MAX_FILE_SIZE)}, received: ${formatBytes(dataSize)}` 
       }),
-      { status: 400 }
+      { status: 413 }
     )
   }
   
@@ -157,19 +331,46 @@ async function handleFileUpload(request: NextRequest, startTime: number) {
     )
   }
   
-  // Store data
+  // Enforce the registered schema, if any
+  const schemaCheck = await validateForKey(storageKey, data)
+  if (!schemaCheck.valid) {
+    return NextResponse.json(
+      createAPIResponse(null, {
+        error: 'Schema validation failed',
+        message: `Data does not match schema ${schemaCheck.schema}`,
+        details: schemaCheck.errors
+      }),
+      { status: 400 }
+    )
+  }
+  
+  // Enforce the namespace quota
+  const quotaError = (await loadQuota(namespace.name)).check(storageKey, dataSize)
+  if (quotaError) return quotaExceeded(quotaError)
+  
+  // Store data, rejecting stale writes
   const ttlSeconds = ttl ? parseInt(ttl) : undefined
-  await db.set(key, data, ttlSeconds)
+  const write = await db.setIfMatch(storageKey, data, request.headers.get('if-match'), ttlSeconds, {
+    tags: tags.tags,
+    vary: vary.vary,
+    format
+  })
+  if (!write.ok) {
+    return preconditionFailed(key, write.etag)
+  }
+  const record = write.record!
   
-  // Invalidate cache
-  await cache.invalidatePattern(`data:${key}:*`)
+  // Invalidate cache, including everything sharing the document's tags
+  await cache.invalidateIndex(storageKey)
+  await cache.invalidateTags(toStorageTags(namespace.name, record.metadata?.tags))
   
   // Log the update
-  await logUpdate(key, {
+  await logUpdate(storageKey, {
     type: 'file',
     filename: file.name,
     size: file.size,
-    fileType: file.type
+    fileType: file.type,
+    format
   })
   
   const responseTime = Date.now() - startTime
@@ -178,15 +379,22 @@ async function handleFileUpload(request: NextRequest, startTime: number) {
     createAPIResponse({
       key,
       filename: file.name,
+      format,
       size: formatBytes(file.size),
+      version: record.version,
       ttl: ttlSeconds || 'permanent',
+      ...(record.metadata?.tags && { tags: record.metadata.tags }),
+      ...(record.metadata?.vary && { vary: record.metadata.vary }),
       url: `/api/data?key=${key}`
     }, {
       message: 'File uploaded and data updated successfully',
       responseTime
     }),
     {
-      headers: { 'X-Response-Time': responseTime.toString() }
+      headers: {
+        'X-Response-Time': responseTime.toString(),
+        'ETag': getETag(record)
+      }
     }
   )
 }
@@ -197,9 +405,16 @@ async function handleJSONUpdate(request: NextRequest, startTime: number) {
   const { key = 'default', data, ttl, bulk = false } = body
   
   if (bulk) {
-    return await handleBulkUpdate(body, startTime)
+    return await handleBulkUpdate(body, request, startTime)
   }
   
+  const auth = await authorizeWrite(request.headers, [key])
+  if (!auth.allowed) return authError(auth)
+  
+  const namespace = resolveNamespace(request, auth.namespace)
+  if (namespace.error) return namespaceError(namespace)
+  const storageKey = toStorageKey(namespace.name, key)
+  
   if (!data) {
     return NextResponse.json(
       createAPIResponse(null, { error: 'Data is required' }),
@@ -207,6 +422,12 @@ async function handleJSONUpdate(request: NextRequest, startTime: number) {
     )
   }
   
+  const tags = parseCacheTags(body.tags ?? request.headers.get('x-cache-tags'))
+  if (tags.error) return invalidCacheOption('Invalid tags', tags.error)
+  
+  const vary = parseVaryPolicy(body.vary ?? request.headers.get('x-cache-vary'))
+  if (vary.error) return invalidCacheOption('Invalid vary policy', vary.error)
+  
   // Validate JSON
   const validation = validateJSON(data)
   if (!validation.valid) {
@@ -218,23 +439,45 @@ async function handleJSONUpdate(request: NextRequest, startTime: number) {
   
   // Check data size
   const dataSize = JSON.stringify(data).length
-  if (dataSize > 10 * 1024 * 1024) {
+  if (dataSize > MAX_FILE_SIZE) {
     return NextResponse.json(
       createAPIResponse(null, { 
-        error: `Data too large. Maximum size: 10MB, received: ${formatBytes(dataSize)}` 
+        error: `Data too large. Maximum size: ${formatBytes(MAX_FILE_SIZE)}, received: ${formatBytes(dataSize)}` 
       }),
       { status: 413 }
     )
   }
   
-  // Store data
-  await db.set(key, data, ttl)
+  // Enforce the registered schema, if any
+  const schemaCheck = await validateForKey(storageKey, data)
+  if (!schemaCheck.valid) {
+    return NextResponse.json(
+      createAPIResponse(null, {
+        error: 'Schema validation failed',
+        message: `Data does not match schema ${schemaCheck.schema}`,
+        details: schemaCheck.errors
+      }),
+      { status: 400 }
+    )
+  }
+  
+  // Enforce the namespace quota
+  const quotaError = (await loadQuota(namespace.name)).check(storageKey, dataSize)
+  if (quotaError) return quotaExceeded(quotaError)
+  
+  // Store data, rejecting stale writes
+  const write = await db.setIfMatch(storageKey, data, request.headers.get('if-match'), ttl, { tags: tags.tags, vary: vary.vary })
+  if (!write.ok) {
+    return preconditionFailed(key, write.etag)
+  }
+  const record = write.record!
   
-  // Invalidate cache
-  await cache.invalidatePattern(`data:${key}:*`)
+  // Invalidate cache, including everything sharing the document's tags
+  await cache.invalidateIndex(storageKey)
+  await cache.invalidateTags(toStorageTags(namespace.name, record.metadata?.tags))
   
   // Log the update
-  await logUpdate(key, {
+  await logUpdate(storageKey, {
     type: 'json',
     size: dataSize
   })
@@ -245,21 +488,34 @@ async function handleJSONUpdate(request: NextRequest, startTime: number) {
     createAPIResponse({
       key,
       size: formatBytes(dataSize),
+      version: record.version,
       ttl: ttl || 'permanent',
+      ...(record.metadata?.tags && { tags: record.metadata.tags }),
+      ...(record.metadata?.vary && { vary: record.metadata.vary }),
       url: `/api/data?key=${key}`
     }, {
       message: 'Data updated successfully',
       responseTime
     }),
     {
-      headers: { 'X-Response-Time': responseTime.toString() }
+      headers: {
+        'X-Response-Time': responseTime.toString(),
+        'ETag': getETag(record)
+      }
     }
   )
 }
 
 // Handle bulk updates
-async function handleBulkUpdate(body: any, startTime: number) {
-  const { updates = [], ttl } = body
+async function handleBulkUpdate(body: any, request: NextRequest, startTime: number) {
+  const { updates = [], ttl, atomic = false } = body
+  
+  // Tags and variance policy for items that do not declare their own
+  const defaultTags = parseCacheTags(body.tags ?? request.headers.get('x-cache-tags'))
+  if (defaultTags.error) return invalidCacheOption('Invalid tags', defaultTags.error)
+  
+  const defaultVary = parseVaryPolicy(body.vary ?? request.headers.get('x-cache-vary'))
+  if (defaultVary.error) return invalidCacheOption('Invalid vary policy', defaultVary.error)
   
   if (!Array.isArray(updates) || updates.length === 0) {
     return NextResponse.json(
@@ -275,47 +531,61 @@ async function handleBulkUpdate(body: any, startTime: number) {
     )
   }
   
+  // Every key in the batch must be writable before anything is written
+  const auth = await authorizeWrite(request.headers, updates.filter(update => update?.key).map(update => update.key))
+  if (!auth.allowed) return authError(auth)
+  
+  const namespace = resolveNamespace(request, auth.namespace)
+  if (namespace.error) return namespaceError(namespace)
+  
+  // One registry and usage read for the whole batch
+  const context: BulkContext = {
+    namespace: namespace.name,
+    defaultTags,
+    defaultVary,
+    schemaRegistry: await getSchemaRegistry(),
+    quota: await loadQuota(namespace.name)
+  }
+  
+  if (atomic) {
+    return await handleAtomicBulkUpdate(updates, ttl, context, request, startTime)
+  }
+  
   const results = []
+  const invalidated = new Set<string>()
   let totalSize = 0
   
   for (const update of updates) {
-    const { key, data } = update
+    const checked = await checkBulkItem(update, context)
+    totalSize += checked.size || 0
     
-    if (!key || !data) {
-      results.push({ key, status: 'failed', error: 'Key and data are required' })
+    if (!checked.item) {
+      results.push(checked.failure)
       continue
     }
     
+    const { key, storageKey, data, size: dataSize, tags, vary, ifMatch } = checked.item
+    
     try {
-      // Validate JSON
-      const validation = validateJSON(data)
-      if (!validation.valid) {
-        results.push({ key, status: 'failed', error: validation.error })
+      // Store data; the precondition is checked again as it is written
+      const write = await db.setIfMatch(storageKey, data, ifMatch || null, ttl, { tags, vary })
+      if (!write.ok) {
+        results.push(staleItem(key, write.etag))
         continue
       }
+      const record = write.record!
       
-      const dataSize = JSON.stringify(data).length
-      totalSize += dataSize
-      
-      // Check individual item size
-      if (dataSize > 1024 * 1024) { // 1MB per item
-        results.push({ key, status: 'failed', error: 'Individual item too large (max 1MB)' })
-        continue
-      }
-      
-      // Store data
-      await db.set(key, data, ttl)
-      
-      // Invalidate cache
-      await cache.invalidatePattern(`data:${key}:*`)
+      // Invalidate cache; tagged entries go once the batch is done
+      await cache.invalidateIndex(storageKey)
+      record.metadata?.tags?.forEach(tag => invalidated.add(tag))
       
       // Log the update
-      await logUpdate(key, {
+      await logUpdate(storageKey, {
         type: 'bulk',
         size: dataSize
       })
       
-      results.push({ key, status: 'success', size: formatBytes(dataSize) })
+      results.push({ key, status: 'success', size: formatBytes(dataSize), etag: getETag(record) })
       
     } catch (error) {
       results.push({ 
@@ -326,6 +596,8 @@ async function handleBulkUpdate(body: any, startTime: number) {
     }
   }
   
+  await cache.invalidateTags(toStorageTags(namespace.name, Array.from(invalidated)))
+  
   const responseTime = Date.now() - startTime
   const successful = results.filter(r => r.status === 'success').length
   
@@ -348,12 +620,256 @@ async function handleBulkUpdate(body: any, startTime: number) {
   )
 }
 
+// Handle an atomic bulk update: every item is checked before any is written,
+// then all are committed in one transaction. Cache invalidations and log
+// entries are grouped under a batch ID, queryable with ?action=batch&id=.
+async function handleAtomicBulkUpdate(
+  updates: any[],
+  ttl: number | undefined,
+  context: BulkContext,
+  request: NextRequest,
+  startTime: number
+) {
+  const checks = []
+  for (const update of updates) {
+    checks.push(await checkBulkItem(update, context))
+  }
+  
+  const failures = checks.filter(check => !check.item)
+  if (failures.length > 0) {
+    // Only stale items: the client can re-read and retry the same batch
+    const stale = failures.every(check => check.failure.etag !== undefined)
+    
+    return NextResponse.json(
+      createAPIResponse({
+        results: checks.map(check => check.failure || { key: check.item!.key, status: 'valid' })
+      }, {
+        error: stale ? 'Precondition Failed' : 'Atomic bulk update rejected',
+        message: `${failures.length}/${updates.length} updates failed validation; nothing was written`
+      }),
+      { status: stale ? 412 : 400 }
+    )
+  }
+  
+  const items = checks.map(check => check.item!)
+  
+  // Commit only if the records the preconditions matched are still current
+  const expected: Record<string, JSONData | null> = {}
+  items.forEach(item => {
+    if (item.expected !== undefined) expected[item.storageKey] = item.expected
+  })
+  
+  const records = await db.mset(
+    items.map((item): [string, any, WriteOptions] => [item.storageKey, item.data, { tags: item.tags, vary: item.vary }]),
+    ttl,
+    expected
+  )
+  if (!records) {
+    return NextResponse.json(
+      createAPIResponse(null, {
+        error: 'Precondition Failed',
+        message: 'Items changed while the batch was committed; nothing was written. Re-read them and retry.'
+      }),
+      { status: 412 }
+    )
+  }
+  
+  const batchId = crypto.randomUUID()
+  const clientIP = getClientIP(request.headers)
+  
+  // Invalidate cache once for the whole batch
+  const keys = Array.from(new Set(items.map(item => item.key)))
+  const tags = new Set<string>()
+  records.forEach(record => record.metadata?.tags?.forEach(tag => tags.add(tag)))
+  
+  for (const key of keys) {
+    await cache.invalidateIndex(toStorageKey(context.namespace, key))
+  }
+  await cache.invalidateTags(toStorageTags(context.namespace, Array.from(tags)))
+  
+  // Log the updates under the batch
+  for (let i = 0; i < items.length; i++) {
+    await logUpdate(items[i].storageKey, {
+      type: 'bulk',
+      size: items[i].size,
+      version: records[i].version,
+      batchId
+    })
+  }
+  await logBatch({
+    id: batchId,
+    namespace: context.namespace,
+    timestamp: new Date().toISOString(),
+    items: items.map((item, i) => ({ key: item.key, version: records[i].version, size: item.size })),
+    invalidated: { keys, tags: Array.from(tags) },
+    clientIP
+  })
+  
+  const responseTime = Date.now() - startTime
+  const totalSize = items.reduce((total, item) => total + item.size, 0)
+  
+  return NextResponse.json(
+    createAPIResponse({
+      batchId,
+      results: items.map((item, i) => ({
+        key: item.key,
+        status: 'success',
+        size: formatBytes(item.size),
+        version: records[i].version,
+        etag: getETag(records[i])
+      })),
+      summary: {
+        total: updates.length,
+        successful: updates.length,
+        failed: 0,
+        totalSize: formatBytes(totalSize),
+        atomic: true
+      }
+    }, {
+      message: `Atomic bulk update committed: ${updates.length} updates`,
+      responseTime
+    }),
+    {
+      headers: { 'X-Response-Time': responseTime.toString() }
+    }
+  )
+}
+
+// Check one bulk item: data, size, schema, If-Match precondition and quota.
+// `size` is reported once the data is known to be valid JSON.
+async function checkBulkItem(update: any, context: BulkContext): Promise<BulkCheck> {
+  const { key, data, ifMatch } = update || {}
+  const tags = update?.tags !== undefined ? parseCacheTags(update.tags) : context.defaultTags
+  const vary = update?.vary !== undefined ? parseVaryPolicy(update.vary) : context.defaultVary
+  
+  if (!key || !data) {
+    return { failure: { key, status: 'failed', error: 'Key and data are required' } }
+  }
+  
+  if (tags.error || vary.error) {
+    return { failure: { key, status: 'failed', error: tags.error || vary.error } }
+  }
+  
+  const storageKey = toStorageKey(context.namespace, key)
+  let size: number | undefined
+  
+  try {
+    // Validate JSON
+    const validation = validateJSON(data)
+    if (!validation.valid) {
+      return { failure: { key, status: 'failed', error: validation.error } }
+    }
+    
+    size = JSON.stringify(data).length
+    
+    // Check individual item size
+    if (size > 1024 * 1024) { // 1MB per item
+      return { size, failure: { key, status: 'failed', error: 'Individual item too large (max 1MB)' } }
+    }
+    
+    // Enforce the registered schema, if any
+    const schemaCheck = await validateForKey(storageKey, data, context.schemaRegistry)
+    if (!schemaCheck.valid) {
+      return {
+        size,
+        failure: {
+          key,
+          status: 'failed',
+          error: `Schema validation failed (${schemaCheck.schema})`,
+          details: schemaCheck.errors
+        }
+      }
+    }
+    
+    // Per-item If-Match precondition
+    const precondition = await db.checkIfMatch(storageKey, ifMatch || null)
+    if (!precondition.ok) {
+      return { size, failure: staleItem(key, precondition.etag) }
+    }
+    
+    // Enforce the namespace quota
+    const quotaError = context.quota.check(storageKey, size)
+    if (quotaError) {
+      return { size, failure: { key, status: 'failed', error: quotaError } }
+    }
+    
+    return {
+      size,
+      item: {
+        key,
+        storageKey,
+        data,
+        size,
+        tags: tags.tags,
+        vary: vary.vary,
+        ...(ifMatch && { ifMatch, expected: precondition.current })
+      }
+    }
+    
+  } catch (error) {
+    return {
+      size,
+      failure: {
+        key,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+}
+
+// Report a bulk item whose If-Match no longer matches
+function staleItem(key: string, currentETag: string | null) {
+  return {
+    key,
+    status: 'failed',
+    error: 'Precondition failed: item has changed since it was read',
+    etag: currentETag
+  }
+}
+
+// Reject malformed cache tags or variance policies
+function invalidCacheOption(error: string, message: string) {
+  return NextResponse.json(
+    createAPIResponse(null, { error, message }),
+    { status: 400 }
+  )
+}
+
+// Reject an uploaded file that does not parse, pointing at the error
+function invalidFile(format: SourceFormat, error: ParseError) {
+  return NextResponse.json(
+    createAPIResponse(null, {
+      error: `Invalid ${format.toUpperCase()} file`,
+      message: describeParseError(error),
+      details: error
+    }),
+    { status: 400 }
+  )
+}
+
+// Reject a write whose If-Match no longer matches
+function preconditionFailed(key: string, currentETag: string | null) {
+  return NextResponse.json(
+    createAPIResponse(null, {
+      error: 'Precondition Failed',
+      message: currentETag
+        ? `"${key}" has changed since it was read. Fetch the latest version and retry.`
+        : `"${key}" does not exist`
+    }),
+    {
+      status: 412,
+      headers: currentETag ? { 'ETag': currentETag } : {}
+    }
+  )
+}
+
 // Handle update history
-async function handleUpdateHistory(key: string | null, limit: number) {
+async function handleUpdateHistory(namespace: string, key: string | null, limit: number) {
   try {
     if (key) {
       // Get history for specific key
-      const history = await db.list(`updates:log:${key}`)
+      const history = await listUpdateLog(toStorageKey(namespace, key))
       const recentHistory = history.slice(0, limit)
       
       return NextResponse.json(
@@ -367,13 +883,13 @@ async function handleUpdateHistory(key: string | null, limit: number) {
     } else {
       // Get global update statistics
       const allKeys = await db.list('updates:*')
-      const updateKeys = allKeys.filter(k => !k.includes(':log:'))
+      const updateKeys = allKeys.filter(k => !k.includes(':log:') && inNamespace(namespace, k.replace('updates:', '')))
       
       const stats = []
       for (const updateKey of updateKeys.slice(0, limit)) {
         const count = await db.get(updateKey)
         if (count) {
-          const key = updateKey.replace('updates:', '')
+          const key = fromStorageKey(namespace, updateKey.replace('updates:', ''))
           stats.push({ key, updates: count })
         }
       }
@@ -393,12 +909,13 @@ async function handleUpdateHistory(key: string | null, limit: number) {
 }
 
 // Handle update statistics
-async function handleUpdateStats(key: string | null) {
+async function handleUpdateStats(namespace: string, key: string | null) {
   try {
     if (key) {
       // Stats for specific key
-      const updateCount = await db.get(`updates:${key}`)
-      const history = await db.list(`updates:log:${key}`)
+      const storageKey = toStorageKey(namespace, key)
+      const updateCount = await db.get(`updates:${storageKey}`)
+      const history = await listUpdateLog(storageKey)
       
       return NextResponse.json(
         createAPIResponse({
@@ -410,7 +927,8 @@ async function handleUpdateStats(key: string | null) {
       )
     } else {
       // Global stats
-      const allUpdateKeys = await db.list('updates:*')
+      const allUpdateKeys = (await db.list('updates:*'))
+        .filter(k => inNamespace(namespace, k.replace('updates:log:', '').replace('updates:', '')))
       const logKeys = allUpdateKeys.filter(k => k.includes(':log:'))
       const countKeys = allUpdateKeys.filter(k => !k.includes(':log:'))
       
@@ -418,7 +936,8 @@ async function handleUpdateStats(key: string | null) {
         createAPIResponse({
           totalKeys: countKeys.length,
           totalLogEntries: logKeys.length,
-          keysWithHistory: logKeys.map(k => k.replace('updates:log:', '')),
+          // Log entry keys end in their timestamp and count
+          keysWithHistory: Array.from(new Set(logKeys.map(k => fromStorageKey(namespace, k.replace('updates:log:', '').replace(LOG_SUFFIX, ''))))),
         })
       )
     }
@@ -428,22 +947,22 @@ async function handleUpdateStats(key: string | null) {
   }
 }
 
-// Log update activity
-async function logUpdate(key: string, details: any) {
-  try {
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      ...details
-    }
-    
-    // Add to log
-    await db.set(`updates:log:${key}:${Date.now()}`, logEntry, 7 * 24 * 60 * 60) // 7 days TTL
-    
-    // Increment counter
-    await db.increment(`updates:${key}`)
-    
-  } catch (error) {
-    console.warn('Failed to log update:', error)
-    // Don't throw error, as this is non-critical
+// Handle batch lookup: the writes and invalidations of an atomic bulk update
+async function handleBatchLookup(namespace: string, id: string | null) {
+  if (!id) {
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Batch ID is required' }),
+      { status: 400 }
+    )
   }
-}
\ No newline at end of file
+  
+  const batch = await getBatch(id)
+  if (!batch || batch.namespace !== namespace) {
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Batch not found', message: `Batch "${id}" does not exist or has expired` }),
+      { status: 404 }
+    )
+  }
+  
+  return NextResponse.json(createAPIResponse(batch))
+}
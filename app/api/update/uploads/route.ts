@@ -0,0 +1,484 @@
+// app/api/update/uploads/route.ts - Resumable uploads: initiate, send parts, check progress, complete or abort
+import { NextRequest, NextResponse } from 'next/server'
+import { db, getETag, MAX_FILE_SIZE } from '@/lib/database'
+import { cache, parseCacheTags } from '@/lib/cache'
+import { describeParseError, detectSourceFormat, ParseError, parseSource, SourceFormat } from '@/lib/formats'
+import { logUpdate } from '@/lib/updates'
+import { validateForKey } from '@/lib/schema'
+import { authError, authorizeWrite } from '@/lib/auth'
+import { loadQuota, namespaceError, quotaExceeded, resolveNamespace, toStorageKey, toStorageTags } from '@/lib/namespace'
+import {
+  assembleUpload,
+  createUploadSession,
+  deleteUploadSession,
+  getUploadProgress,
+  getUploadSession,
+  isValidChecksum,
+  MAX_PART_SIZE,
+  MAX_UPLOAD_PARTS,
+  putUploadPart,
+  UploadSession
+} from '@/lib/uploads'
+import { createAPIResponse, formatBytes, parseVaryPolicy, validateJSON } from '@/lib/utils'
+
+export const runtime = 'edge'
+export const dynamic = 'force-dynamic'
+
+// POST - Initiate a session ({ action: 'initiate' }, the default) or complete one ({ action: 'complete', id })
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    const body = await request.json()
+    const { action = 'initiate' } = body
+
+    switch (action) {
+      case 'initiate':
+        return await handleInitiate(request, body)
+
+      case 'complete':
+        return await handleComplete(request, body, startTime)
+
+      default:
+        return NextResponse.json(
+          createAPIResponse(null, { error: 'Invalid action. Use: initiate, complete' }),
+          { status: 400 }
+        )
+    }
+
+  } catch (error) {
+    console.error('Upload session error:', error)
+
+    return NextResponse.json(
+      createAPIResponse(null, {
+        error: 'Upload failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Upload part ?part=<n> of session ?id=<id>; the body is the part's raw
+// bytes and X-Checksum-SHA256 their hex SHA-256
+export async function PUT(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const loaded = await loadSession(request, searchParams.get('id'))
+    if (!loaded.session) return loaded.response!
+    const session = loaded.session
+
+    const part = Number(searchParams.get('part'))
+    if (!Number.isInteger(part) || part < 1 || part > MAX_UPLOAD_PARTS) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: `Part must be an integer from 1 to ${MAX_UPLOAD_PARTS}` }),
+        { status: 400 }
+      )
+    }
+
+    const checksum = (request.headers.get('x-checksum-sha256') || '').trim().toLowerCase()
+    if (!isValidChecksum(checksum)) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: 'Checksum is required',
+          message: 'Send the hex SHA-256 of the part in the X-Checksum-SHA256 header'
+        }),
+        { status: 400 }
+      )
+    }
+
+    const bytes = new Uint8Array(await request.arrayBuffer())
+    if (bytes.length === 0) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Part is empty' }),
+        { status: 400 }
+      )
+    }
+
+    if (bytes.length > MAX_PART_SIZE) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: `Part too large. Maximum size: ${formatBytes(MAX_PART_SIZE)}, received: ${formatBytes(bytes.length)}`
+        }),
+        { status: 413 }
+      )
+    }
+
+    // Parts already received count towards the file limit, except one this replaces
+    const progress = await getUploadProgress(session)
+    const replaced = progress.parts.find(uploaded => uploaded.part === part)
+    const total = progress.received - (replaced ? replaced.size : 0) + bytes.length
+    if (total > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: `File too large. Maximum size: ${formatBytes(MAX_FILE_SIZE)}, received: ${formatBytes(total)}`
+        }),
+        { status: 413 }
+      )
+    }
+
+    const stored = await putUploadPart(session, part, bytes, checksum)
+    if (stored.error) {
+      return NextResponse.json(
+        createAPIResponse(null, { error: 'Checksum mismatch', message: stored.error }),
+        { status: 422 }
+      )
+    }
+
+    return NextResponse.json(
+      createAPIResponse({ id: session.id, ...stored.part }, {
+        message: `Part ${part} received`
+      })
+    )
+
+  } catch (error) {
+    console.error('Upload part error:', error)
+
+    return NextResponse.json(
+      createAPIResponse(null, {
+        error: 'Part upload failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500 }
+    )
+  }
+}
+
+// GET - Progress of session ?id=<id>: the parts received so far
+export async function GET(request: NextRequest) {
+  try {
+    const loaded = await loadSession(request, request.nextUrl.searchParams.get('id'))
+    if (!loaded.session) return loaded.response!
+    const session = loaded.session
+
+    const progress = await getUploadProgress(session)
+
+    return NextResponse.json(
+      createAPIResponse({
+        ...describeSession(session),
+        ...progress
+      }),
+      {
+        headers: { 'Cache-Control': 'no-store' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Upload progress error:', error)
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Failed to fetch upload progress' }),
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Abort session ?id=<id>, discarding its parts
+export async function DELETE(request: NextRequest) {
+  try {
+    const loaded = await loadSession(request, request.nextUrl.searchParams.get('id'))
+    if (!loaded.session) return loaded.response!
+
+    await deleteUploadSession(loaded.session)
+
+    return NextResponse.json(
+      createAPIResponse({ id: loaded.session.id, aborted: true }, {
+        message: 'Upload aborted'
+      })
+    )
+
+  } catch (error) {
+    console.error('Upload abort error:', error)
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Failed to abort upload' }),
+      { status: 500 }
+    )
+  }
+}
+
+// Start a session for a file to be stored under `key`
+async function handleInitiate(request: NextRequest, body: any) {
+  const { key, filename = '', contentType = '', size, ttl } = body
+
+  if (!key || typeof key !== 'string') {
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Key is required' }),
+      { status: 400 }
+    )
+  }
+
+  const auth = await authorizeWrite(request.headers, [key])
+  if (!auth.allowed) return authError(auth)
+
+  const namespace = resolveNamespace(request, auth.namespace)
+  if (namespace.error) return namespaceError(namespace)
+
+  const tags = parseCacheTags(body.tags ?? request.headers.get('x-cache-tags'))
+  if (tags.error) return invalidCacheOption('Invalid tags', tags.error)
+
+  const vary = parseVaryPolicy(body.vary ?? request.headers.get('x-cache-vary'))
+  if (vary.error) return invalidCacheOption('Invalid vary policy', vary.error)
+
+  if (ttl !== undefined && (!Number.isInteger(ttl) || ttl < 1)) {
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'TTL must be a positive number of seconds' }),
+      { status: 400 }
+    )
+  }
+
+  if (size !== undefined && (!Number.isInteger(size) || size < 1)) {
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Size must be a positive number of bytes' }),
+      { status: 400 }
+    )
+  }
+
+  if (size > MAX_FILE_SIZE) {
+    return NextResponse.json(
+      createAPIResponse(null, {
+        error: `File too large. Maximum size: ${formatBytes(MAX_FILE_SIZE)}, received: ${formatBytes(size)}`
+      }),
+      { status: 413 }
+    )
+  }
+
+  // The file is parsed once complete, but its type is checked up front
+  const format = detectSourceFormat(String(filename), String(contentType))
+  if (!format) {
+    return NextResponse.json(
+      createAPIResponse(null, {
+        error: 'Unsupported file type',
+        message: 'Upload JSON, YAML, CSV or NDJSON (.json, .yaml, .yml, .csv, .ndjson, .jsonl)'
+      }),
+      { status: 400 }
+    )
+  }
+
+  const session = await createUploadSession({
+    namespace: namespace.name,
+    key,
+    filename: String(filename),
+    contentType: String(contentType),
+    format,
+    ...(size !== undefined && { size }),
+    ...(ttl !== undefined && { ttl }),
+    ...(tags.tags && { tags: tags.tags }),
+    ...(vary.vary && { vary: vary.vary })
+  })
+
+  return NextResponse.json(
+    createAPIResponse({
+      ...describeSession(session),
+      partSize: MAX_PART_SIZE,
+      maxParts: MAX_UPLOAD_PARTS,
+      url: `/api/update/uploads?id=${session.id}`
+    }, {
+      message: 'Upload session started'
+    }),
+    { status: 201 }
+  )
+}
+
+// Assemble the parts, then validate and store the document like a file upload
+async function handleComplete(request: NextRequest, body: any, startTime: number) {
+  const loaded = await loadSession(request, body.id)
+  if (!loaded.session) return loaded.response!
+  const session = loaded.session
+  const storageKey = toStorageKey(session.namespace, session.key)
+
+  const assembled = await assembleUpload(session)
+  if (assembled.error) {
+    return NextResponse.json(
+      createAPIResponse(null, { error: 'Upload incomplete', message: assembled.error }),
+      { status: 400 }
+    )
+  }
+  const size = assembled.size!
+
+  if (size > MAX_FILE_SIZE) {
+    return NextResponse.json(
+      createAPIResponse(null, {
+        error: `File too large. Maximum size: ${formatBytes(MAX_FILE_SIZE)}, received: ${formatBytes(size)}`
+      }),
+      { status: 413 }
+    )
+  }
+
+  // Parse the assembled file into JSON
+  const parsed = parseSource(assembled.text!, session.format)
+  if (parsed.error) return invalidFile(session.format, parsed.error)
+  const data = parsed.data
+
+  // Check the parsed size too: YAML, CSV and NDJSON can expand when converted
+  const dataSize = JSON.stringify(data).length
+  if (dataSize > MAX_FILE_SIZE) {
+    return NextResponse.json(
+      createAPIResponse(null, {
+        error: `Data too large. Maximum size: ${formatBytes(MAX_FILE_SIZE)}, received: ${formatBytes(dataSize)}`
+      }),
+      { status: 413 }
+    )
+  }
+
+  // Validate JSON structure
+  const validation = validateJSON(data)
+  if (!validation.valid) {
+    return NextResponse.json(
+      createAPIResponse(null, { error: validation.error }),
+      { status: 400 }
+    )
+  }
+
+  // Enforce the registered schema, if any
+  const schemaCheck = await validateForKey(storageKey, data)
+  if (!schemaCheck.valid) {
+    return NextResponse.json(
+      createAPIResponse(null, {
+        error: 'Schema validation failed',
+        message: `Data does not match schema ${schemaCheck.schema}`,
+        details: schemaCheck.errors
+      }),
+      { status: 400 }
+    )
+  }
+
+  // Enforce the namespace quota
+  const quotaError = (await loadQuota(session.namespace)).check(storageKey, dataSize)
+  if (quotaError) return quotaExceeded(quotaError)
+
+  // Store data, rejecting stale writes
+  const write = await db.setIfMatch(storageKey, data, request.headers.get('if-match'), session.ttl, {
+    tags: session.tags,
+    vary: session.vary,
+    format: session.format
+  })
+  if (!write.ok) {
+    return preconditionFailed(session.key, write.etag)
+  }
+  const record = write.record!
+
+  // Invalidate cache, including everything sharing the document's tags
+  await cache.invalidateIndex(storageKey)
+  await cache.invalidateTags(toStorageTags(session.namespace, record.metadata?.tags))
+
+  // Log the update
+  await logUpdate(storageKey, {
+    type: 'file',
+    filename: session.filename,
+    size,
+    fileType: session.contentType,
+    format: session.format,
+    uploadId: session.id
+  })
+
+  // The parts are no longer needed once the document is stored
+  await deleteUploadSession(session)
+
+  const responseTime = Date.now() - startTime
+
+  return NextResponse.json(
+    createAPIResponse({
+      key: session.key,
+      filename: session.filename,
+      format: session.format,
+      size: formatBytes(size),
+      version: record.version,
+      ttl: session.ttl || 'permanent',
+      ...(record.metadata?.tags && { tags: record.metadata.tags }),
+      ...(record.metadata?.vary && { vary: record.metadata.vary }),
+      url: `/api/data?key=${session.key}`
+    }, {
+      message: 'Upload completed and data updated successfully',
+      responseTime
+    }),
+    {
+      headers: {
+        'X-Response-Time': responseTime.toString(),
+        'ETag': getETag(record)
+      }
+    }
+  )
+}
+
+// Look up a session the caller may write to. Sessions of another namespace
+// are reported as missing, so their IDs cannot be probed.
+async function loadSession(request: NextRequest, id: any): Promise<{ session?: UploadSession; response?: NextResponse }> {
+  if (!id || typeof id !== 'string') {
+    return {
+      response: NextResponse.json(
+        createAPIResponse(null, { error: 'Upload ID is required' }),
+        { status: 400 }
+      )
+    }
+  }
+
+  const session = await getUploadSession(id)
+
+  if (session) {
+    const auth = await authorizeWrite(request.headers, [session.key])
+    if (!auth.allowed) return { response: authError(auth) }
+
+    const namespace = resolveNamespace(request, auth.namespace)
+    if (namespace.error) return { response: namespaceError(namespace) }
+
+    if (namespace.name === session.namespace) return { session }
+  }
+
+  return {
+    response: NextResponse.json(
+      createAPIResponse(null, {
+        error: 'Upload not found',
+        message: `Upload session "${id}" does not exist, has expired or was already completed`
+      }),
+      { status: 404 }
+    )
+  }
+}
+
+// Session fields reported to clients
+function describeSession(session: UploadSession) {
+  return {
+    id: session.id,
+    key: session.key,
+    filename: session.filename,
+    format: session.format,
+    ...(session.size !== undefined && { size: session.size }),
+    createdAt: session.createdAt,
+    expiresAt: session.expiresAt
+  }
+}
+
+// Reject malformed cache tags or variance policies
+function invalidCacheOption(error: string, message: string) {
+  return NextResponse.json(
+    createAPIResponse(null, { error, message }),
+    { status: 400 }
+  )
+}
+
+// Reject an uploaded file that does not parse, pointing at the error
+function invalidFile(format: SourceFormat, error: ParseError) {
+  return NextResponse.json(
+    createAPIResponse(null, {
+      error: `Invalid ${format.toUpperCase()} file`,
+      message: describeParseError(error),
+      details: error
+    }),
+    { status: 400 }
+  )
+}
+
+// Reject a write whose If-Match no longer matches
+function preconditionFailed(key: string, currentETag: string | null) {
+  return NextResponse.json(
+    createAPIResponse(null, {
+      error: 'Precondition Failed',
+      message: currentETag
+        ? `"${key}" has changed since it was read. Fetch the latest version and retry.`
+        : `"${key}" does not exist`
+    }),
+    {
+      status: 412,
+      headers: currentETag ? { 'ETag': currentETag } : {}
+    }
+  )
+}
@@ -2,7 +2,10 @@
 'use client'
 
 import { useState, useRef } from 'react'
-import { Play, Upload, Copy, Download, RefreshCw, AlertCircle, CheckCircle } from 'lucide-react'
+import { Play, Upload, Copy, Download, RefreshCw, RotateCcw, AlertCircle, CheckCircle, Pause, X } from 'lucide-react'
+
+// Files are uploaded in parts of this size, so an interrupted upload can resume
+const UPLOAD_PART_SIZE = 1024 * 1024
 
 export default function ApiTester() {
   const [key, setKey] = useState('default')
@@ -17,7 +20,22 @@ export default function ApiTester() {
 }`)
   const [file, setFile] = useState<File | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
-  const [activeTab, setActiveTab] = useState<'get' | 'post' | 'upload'>('get')
+  const [upload, setUpload] = useState<{ id: string; sent: number; total: number } | null>(null)
+  const pauseRequested = useRef(false)
+  const [activeTab, setActiveTab] = useState<'get' | 'post' | 'upload' | 'restore'>('get')
+  const [restoreMode, setRestoreMode] = useState<'version' | 'at'>('version')
+  const [restoreTarget, setRestoreTarget] = useState('')
+  const [apiKey, setApiKey] = useState('')
+  const [namespace, setNamespace] = useState('')
+
+  // API key and namespace are only sent when entered
+  const authHeaders = (): Record<string, string> => ({
+    ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    ...(namespace && { 'X-Namespace': namespace })
+  })
+
+  // The session of an unfinished upload is remembered per file, key and namespace
+  const uploadSessionKey = (f: File) => `upload:${namespace}:${key}:${f.name}:${f.size}:${f.lastModified}`
 
   const testApi = async () => {
     setLoading(true)
@@ -30,7 +48,7 @@ export default function ApiTester() {
       if (format !== 'json') params.append('format', format)
       
       const url = `/api/data?${params.toString()}`
-      const res = await fetch(url)
+      const res = await fetch(url, { headers: authHeaders() })
       const data = await res.json()
       
       const endTime = Date.now()
@@ -73,6 +91,7 @@ export default function ApiTester() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...authHeaders(),
         },
         body: JSON.stringify({ key, data }),
       })
@@ -103,18 +122,155 @@ export default function ApiTester() {
       return
     }
 
+    setLoading(true)
+    setResponse(null)
+    pauseRequested.current = false
+    const startTime = Date.now()
+    const sessionKey = uploadSessionKey(file)
+    
+    // A failed step leaves the session open, so the upload can be resumed
+    const showResult = async (res: Response) => {
+      const result = await res.json()
+      setResponse({
+        data: result,
+        status: res.status,
+        clientResponseTime: Date.now() - startTime,
+        operation: 'upload'
+      })
+    }
+    
+    try {
+      // Resume a remembered session, skipping the parts it already has
+      let id = localStorage.getItem(sessionKey)
+      const received: Record<number, string> = {}
+      
+      if (id) {
+        const res = await fetch(`/api/update/uploads?id=${id}`, { headers: authHeaders() })
+        if (res.ok) {
+          const progress = await res.json()
+          progress.data.parts.forEach((part: any) => { received[part.part] = part.checksum })
+        } else {
+          id = null
+        }
+      }
+      
+      if (!id) {
+        const res = await fetch('/api/update/uploads', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...authHeaders(),
+          },
+          body: JSON.stringify({ key, filename: file.name, contentType: file.type, size: file.size }),
+        })
+        if (!res.ok) return await showResult(res)
+        
+        id = (await res.json()).data.id as string
+        localStorage.setItem(sessionKey, id)
+      }
+      
+      const parts = Math.ceil(file.size / UPLOAD_PART_SIZE)
+      setUpload({ id, sent: 0, total: file.size })
+      
+      for (let part = 1; part <= parts; part++) {
+        if (pauseRequested.current) {
+          setResponse({
+            message: `Upload paused after ${part - 1} of ${parts} parts. Upload the same file again to resume.`,
+            uploadId: id,
+            operation: 'upload'
+          })
+          return
+        }
+        
+        const start = (part - 1) * UPLOAD_PART_SIZE
+        const bytes = await file.slice(start, start + UPLOAD_PART_SIZE).arrayBuffer()
+        const checksum = await sha256Hex(bytes)
+        
+        if (received[part] !== checksum) {
+          const res = await fetch(`/api/update/uploads?id=${id}&part=${part}`, {
+            method: 'PUT',
+            headers: {
+              'Content-Type': 'application/octet-stream',
+              'X-Checksum-SHA256': checksum,
+              ...authHeaders(),
+            },
+            body: bytes,
+          })
+          if (!res.ok) return await showResult(res)
+        }
+        
+        setUpload({ id, sent: Math.min(start + UPLOAD_PART_SIZE, file.size), total: file.size })
+      }
+      
+      const res = await fetch('/api/update/uploads', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(),
+        },
+        body: JSON.stringify({ action: 'complete', id }),
+      })
+      
+      if (res.ok) {
+        localStorage.removeItem(sessionKey)
+        setUpload(null)
+      }
+      await showResult(res)
+    } catch (error) {
+      setResponse({ 
+        error: error instanceof Error ? error.message : 'Unknown error',
+        status: 0,
+        operation: 'upload'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Discard the parts of an unfinished upload
+  const abortUpload = async () => {
+    if (!file || !upload) return
+    
+    try {
+      const res = await fetch(`/api/update/uploads?id=${upload.id}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      
+      setResponse({
+        data: await res.json(),
+        status: res.status,
+        operation: 'abort'
+      })
+    } catch (error) {
+      setResponse({ 
+        error: error instanceof Error ? error.message : 'Unknown error',
+        status: 0,
+        operation: 'abort'
+      })
+    } finally {
+      localStorage.removeItem(uploadSessionKey(file))
+      setUpload(null)
+    }
+  }
+
+  const restoreData = async () => {
     setLoading(true)
     setResponse(null)
     const startTime = Date.now()
     
     try {
-      const formData = new FormData()
-      formData.append('key', key)
-      formData.append('file', file)
+      const target = restoreMode === 'version'
+        ? { version: parseInt(restoreTarget) }
+        : { at: new Date(restoreTarget).toISOString() }
       
-      const res = await fetch('/api/update', {
+      const res = await fetch('/api/data/restore', {
         method: 'POST',
-        body: formData,
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(),
+        },
+        body: JSON.stringify({ key, ...target }),
       })
       
       const result = await res.json()
@@ -124,13 +280,13 @@ export default function ApiTester() {
         data: result,
         status: res.status,
         clientResponseTime: endTime - startTime,
-        operation: 'upload'
+        operation: 'restore'
       })
     } catch (error) {
       setResponse({ 
         error: error instanceof Error ? error.message : 'Unknown error',
         status: 0,
-        operation: 'upload'
+        operation: 'restore'
       })
     } finally {
       setLoading(false)
@@ -155,10 +311,15 @@ export default function ApiTester() {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
     setFile(selectedFile || null)
+    
+    // Offer to resume when this file has an unfinished upload
+    const id = selectedFile && localStorage.getItem(uploadSessionKey(selectedFile))
+    setUpload(id ? { id, sent: 0, total: selectedFile.size } : null)
   }
 
   const clearFile = () => {
     setFile(null)
+    setUpload(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -171,7 +332,8 @@ export default function ApiTester() {
         {[
           { key: 'get', label: 'GET Data', icon: Download },
           { key: 'post', label: 'POST Update', icon: Upload },
-          { key: 'upload', label: 'File Upload', icon: Upload }
+          { key: 'upload', label: 'File Upload', icon: Upload },
+          { key: 'restore', label: 'Restore', icon: RotateCcw }
         ].map(({ key: tabKey, label, icon: Icon }) => (
           <button
             key={tabKey}
@@ -205,6 +367,40 @@ export default function ApiTester() {
         </p>
       </div>
 
+      {/* API Key Input */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          API Key
+        </label>
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          className="input-field"
+          placeholder="Optional, e.g. vk_..."
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Required only when the API has authentication enabled
+        </p>
+      </div>
+
+      {/* Namespace Input */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Namespace
+        </label>
+        <input
+          type="text"
+          value={namespace}
+          onChange={(e) => setNamespace(e.target.value)}
+          className="input-field"
+          placeholder="default"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Isolated keyspace for a team or tenant; leave empty for the default one
+        </p>
+      </div>
+
       {/* GET Tab */}
       {activeTab === 'get' && (
         <div className="space-y-4">
@@ -316,7 +512,7 @@ export default function ApiTester() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".json,application/json"
+                accept=".json,.yaml,.yml,.csv,.ndjson,.jsonl,application/json,application/yaml,text/csv,application/x-ndjson"
                 onChange={handleFileChange}
                 className="hidden"
               />
@@ -341,24 +537,122 @@ export default function ApiTester() {
               )}
             </div>
             <p className="text-xs text-gray-500 mt-1">
-              Select a JSON file to upload and store (max 10MB)
+              Select a JSON, YAML, CSV or NDJSON file to upload and store (max 10MB)
             </p>
           </div>
 
+          {upload && (
+            <div>
+              <div className="flex items-center justify-between mb-2 text-sm text-gray-600">
+                <span>{upload.sent > 0 ? 'Uploaded' : 'Unfinished upload'}</span>
+                <span>
+                  {Math.round(upload.sent / 1024)} of {Math.round(upload.total / 1024)} KB
+                  ({upload.total > 0 ? Math.round((upload.sent / upload.total) * 100) : 0}%)
+                </span>
+              </div>
+              <div className="progress-bar">
+                <div
+                  className="progress-fill"
+                  style={{ width: `${upload.total > 0 ? (upload.sent / upload.total) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={uploadFile}
+              disabled={loading || !file}
+              className="btn-primary flex items-center gap-2"
+            >
+              {loading ? (
+                <>
+                  <div className="loading-spinner" />
+                  Uploading...
+                </>
+              ) : (
+                <>
+                  <Upload className="h-4 w-4" />
+                  {upload ? 'Resume Upload' : 'Upload File'}
+                </>
+              )}
+            </button>
+            {loading && upload && (
+              <button
+                onClick={() => { pauseRequested.current = true }}
+                className="btn-secondary flex items-center gap-2"
+              >
+                <Pause className="h-4 w-4" />
+                Pause
+              </button>
+            )}
+            {!loading && upload && (
+              <button
+                onClick={abortUpload}
+                className="btn-secondary flex items-center gap-2"
+              >
+                <X className="h-4 w-4" />
+                Cancel Upload
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Restore Tab */}
+      {activeTab === 'restore' && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Restore By
+              </label>
+              <select
+                value={restoreMode}
+                onChange={(e) => {
+                  setRestoreMode(e.target.value as 'version' | 'at')
+                  setRestoreTarget('')
+                }}
+                className="input-field"
+              >
+                <option value="version">Version Number</option>
+                <option value="at">Point in Time</option>
+              </select>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {restoreMode === 'version' ? 'Version' : 'Timestamp'}
+              </label>
+              <input
+                type={restoreMode === 'version' ? 'number' : 'datetime-local'}
+                min={restoreMode === 'version' ? 1 : undefined}
+                value={restoreTarget}
+                onChange={(e) => setRestoreTarget(e.target.value)}
+                className="input-field"
+                placeholder={restoreMode === 'version' ? 'e.g. 3' : undefined}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            The restored data is written as a new version, so a restore can itself be undone.
+            See <code>/api/data/versions?key={key}</code> for retained versions.
+          </p>
+
           <button
-            onClick={uploadFile}
-            disabled={loading || !file}
+            onClick={restoreData}
+            disabled={loading || !restoreTarget}
             className="btn-primary flex items-center gap-2"
           >
             {loading ? (
               <>
                 <div className="loading-spinner" />
-                Uploading...
+                Restoring...
               </>
             ) : (
               <>
-                <Upload className="h-4 w-4" />
-                Upload File
+                <RotateCcw className="h-4 w-4" />
+                Restore Data
               </>
             )}
           </button>
@@ -431,4 +725,12 @@ export default function ApiTester() {
       )}
     </div>
   )
-}
\ No newline at end of file
+}
+
+// Hex SHA-256 of an upload part, sent for the server to verify
+async function sha256Hex(bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
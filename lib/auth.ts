@@ -0,0 +1,197 @@
+// lib/auth.ts - API keys, scopes and request authorization
+import { NextResponse } from 'next/server'
+import { db, isReservedKey } from './database'
+import { createAPIResponse, sha256, toHex } from './utils'
+
+// Scopes: 'read', 'write:<prefix>' ('write:*' for every key), 'cache:admin', 'admin'
+export type Scope = string
+
+export type ApiKeyRecord = {
+  id: string
+  name: string
+  scopes: Scope[]
+  namespace?: string
+  // Rate limit tier (see lib/ratelimit.ts); 'standard' when unset
+  tier?: string
+  createdAt: string
+}
+
+export type AuthResult = {
+  allowed: boolean
+  status?: 401 | 403
+  error?: string
+  keyId?: string
+  namespace?: string
+}
+
+const KEY_PREFIX = 'auth:keys:'
+
+// Auth is off until a root key is configured, so local setups keep working
+export const AUTH_ENABLED = !!process.env.API_SECRET_KEY
+
+// Let anonymous clients read while writes still need a key
+const PUBLIC_READ = process.env.AUTH_PUBLIC_READ === 'true'
+
+// Reads need a key, so read responses must stay out of shared caches
+export const READS_REQUIRE_AUTH = AUTH_ENABLED && !PUBLIC_READ
+
+const SCOPE_PATTERN = /^(read|cache:admin|admin|write:.+)$/
+
+export function isValidScope(scope: any): boolean {
+  return typeof scope === 'string' && SCOPE_PATTERN.test(scope)
+}
+
+// Create a key, optionally bound to one namespace. The plaintext is only
+// returned here; the store keeps its SHA-256 hash.
+export async function createApiKey(
+  name: string,
+  scopes: Scope[],
+  namespace?: string,
+  tier?: string
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const bytes = new Uint8Array(24)
+  crypto.getRandomValues(bytes)
+  const key = `vk_${toHex(bytes)}`
+  const hash = await sha256(key)
+
+  const record: ApiKeyRecord = {
+    id: hash.slice(0, 12),
+    name,
+    scopes,
+    ...(namespace && { namespace }),
+    ...(tier && { tier }),
+    createdAt: new Date().toISOString()
+  }
+
+  await db.set(`${KEY_PREFIX}${hash}`, record)
+
+  return { key, record }
+}
+
+export async function listApiKeys(): Promise<ApiKeyRecord[]> {
+  const keys = await db.list(`${KEY_PREFIX}*`)
+  const records = await db.mget(keys)
+
+  return records
+    .filter(Boolean)
+    .map(record => record!.data as ApiKeyRecord)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+// Revoke a key by its id (the first 12 hex characters of its hash)
+export async function revokeApiKey(id: string): Promise<boolean> {
+  if (!/^[0-9a-f]{12}$/.test(id)) return false
+
+  const keys = await db.list(`${KEY_PREFIX}${id}*`)
+  for (const key of keys) {
+    await db.delete(key)
+  }
+
+  return keys.length > 0
+}
+
+// Check that the request carries a key holding `scope`
+export async function authorize(headers: Headers, scope: Scope): Promise<AuthResult> {
+  if (!AUTH_ENABLED) return { allowed: true }
+  if (scope === 'read' && PUBLIC_READ) return { allowed: true }
+
+  const key = getRequestKey(headers)
+  if (!key) {
+    return { allowed: false, status: 401, error: 'API key required. Send it as "Authorization: Bearer <key>" or "X-API-Key"' }
+  }
+
+  // The root key can do anything, including managing other keys
+  if (key === process.env.API_SECRET_KEY) {
+    return { allowed: true, keyId: 'root' }
+  }
+
+  const apiKey = await lookupApiKey(key)
+  if (!apiKey) {
+    return { allowed: false, status: 401, error: 'Invalid API key' }
+  }
+
+  if (!hasScope(apiKey.scopes, scope)) {
+    return { allowed: false, status: 403, error: `API key is missing the "${scope}" scope`, keyId: apiKey.id }
+  }
+
+  return { allowed: true, keyId: apiKey.id, namespace: apiKey.namespace }
+}
+
+// Id and rate limit tier of the key a request carries, or null when it has
+// none or an unknown one. Does not check scopes.
+export async function identifyApiKey(headers: Headers): Promise<{ id: string; tier: string } | null> {
+  const key = getRequestKey(headers)
+  if (!key) return null
+
+  if (process.env.API_SECRET_KEY && key === process.env.API_SECRET_KEY) {
+    return { id: 'root', tier: 'unlimited' }
+  }
+
+  const apiKey = await lookupApiKey(key)
+  return apiKey ? { id: apiKey.id, tier: apiKey.tier || 'standard' } : null
+}
+
+// Authorize reading a key; internal and namespaced storage keys are off limits
+export async function authorizeRead(headers: Headers, key: string): Promise<AuthResult> {
+  if (isReservedKey(key)) {
+    return reservedKey(key)
+  }
+
+  return await authorize(headers, 'read')
+}
+
+// Authorize a write to each key; fails on the first key the caller may not write
+export async function authorizeWrite(headers: Headers, keys: string[]): Promise<AuthResult> {
+  const reserved = keys.find(key => isReservedKey(key))
+  if (reserved !== undefined) {
+    return reservedKey(reserved)
+  }
+
+  let result: AuthResult = { allowed: true }
+  for (const key of keys) {
+    result = await authorize(headers, `write:${key}`)
+    if (!result.allowed) return result
+  }
+
+  return result
+}
+
+// 401/403 response for a failed authorization
+export function authError(result: AuthResult) {
+  return NextResponse.json(
+    createAPIResponse(null, { error: result.status === 401 ? 'Unauthorized' : 'Forbidden', message: result.error }),
+    {
+      status: result.status || 403,
+      headers: result.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : undefined
+    }
+  )
+}
+
+function reservedKey(key: string): AuthResult {
+  return { allowed: false, status: 403, error: `Key "${key}" uses a reserved prefix` }
+}
+
+// 'write:<prefix>' grants any key starting with the prefix; `scope` may itself be a write:<key>
+function hasScope(granted: Scope[], scope: Scope): boolean {
+  if (granted.includes('admin')) return true
+
+  if (scope.startsWith('write:')) {
+    const key = scope.slice('write:'.length)
+    return granted.some(g => g === 'write:*' || (g.startsWith('write:') && key.startsWith(g.slice('write:'.length))))
+  }
+
+  return granted.includes(scope)
+}
+
+async function lookupApiKey(key: string): Promise<ApiKeyRecord | null> {
+  const record = await db.get(`${KEY_PREFIX}${await sha256(key)}`)
+  return record ? record.data as ApiKeyRecord : null
+}
+
+function getRequestKey(headers: Headers): string | null {
+  const authorization = headers.get('authorization')
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null
+  }
+  return headers.get('x-api-key')
+}
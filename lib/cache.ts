@@ -1,97 +1,398 @@
 // lib/cache.ts - Multi-layer caching
 import { db } from './database'
+import { globToRegExp } from './storage'
+import { waitUntil } from './utils'
 
 const CACHE_PREFIX = 'cache:'
-const DEFAULT_TTL = 60 // 1 minute
+const INDEX_PREFIX = `${CACHE_PREFIX}index:`
+const TAG_PREFIX = `${CACHE_PREFIX}tag:`
+const GROUP_PREFIX = `${CACHE_PREFIX}group:`
+const DEFAULT_TTL = parseInt(process.env.CACHE_TTL || '60') || 60 // KV tier, seconds
+
+// Seconds past the TTL an entry may still be served
+const DEFAULT_STALE_WHILE_REVALIDATE = 60
+const DEFAULT_STALE_IF_ERROR = 600
+
+// Store lock for refreshes: held at most LOCK_TTL seconds, waited on at most LOCK_WAIT ms
+const LOCK_PREFIX = 'locks:cache:'
+const LOCK_TTL = 10
+const LOCK_WAIT = 2000
+const LOCK_POLL = 100
+
+// Tags are short names like "pricing" or "catalog.v2"
+const TAG_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/
+const MAX_TAGS = 20
+
+export type CacheStatus = 'hit' | 'miss' | 'stale'
+
+export type EdgeCacheConfig = {
+  // Seconds a memory copy is trusted before KV is checked again
+  memoryTtl: number
+  // Memory tier bounds; least recently used entries are evicted first
+  maxEntries: number
+  maxBytes: number
+}
+
+// Defaults from CACHE_MEMORY_TTL, CACHE_MEMORY_MAX_ENTRIES and CACHE_MEMORY_MAX_BYTES
+const DEFAULT_CONFIG: EdgeCacheConfig = {
+  memoryTtl: parseInt(process.env.CACHE_MEMORY_TTL || '10') || 10,
+  maxEntries: parseInt(process.env.CACHE_MEMORY_MAX_ENTRIES || '500') || 500,
+  maxBytes: parseInt(process.env.CACHE_MEMORY_MAX_BYTES || '52428800') || 52428800 // 50MB
+}
+
+export type CacheOptions = {
+  // Soft TTL: entries younger than this are hits
+  ttl?: number
+  // Past the TTL, serve stale and refresh in the background for this long
+  staleWhileRevalidate?: number
+  // Past the TTL, serve stale when the fetcher or the store fails for this long
+  staleIfError?: number
+  // Take a store lock so only one instance refreshes the entry at a time
+  lock?: boolean
+  // Record the entry in this index set so invalidateIndex() can drop it
+  // (e.g. every region variant of a document) without scanning
+  index?: string
+  // Record the entry under these tags so invalidateTags() can drop it; a
+  // function receives the fetched data, for tags stored with the document
+  tags?: string[] | ((data: any) => string[] | undefined)
+  // Record the entry in this group's set so groupEntries() lists it without
+  // scanning (e.g. the entries of one namespace)
+  group?: string
+}
+
+export type CacheResult<T> = {
+  data: T | null
+  status: CacheStatus
+  // Warning header value for stale data
+  warning?: string
+}
+
+type MemoryEntry = {
+  data: any
+  size: number
+  storedAt: number
+  expires: number
+  trustedUntil: number
+}
 
 export class EdgeCache {
-  // Memory cache (in-memory for ultra-fast access)
-  private memoryCache = new Map<string, { data: any; expires: number }>()
+  private config: EdgeCacheConfig
+  
+  // Memory cache (in-memory for ultra-fast access), an LRU in Map order with
+  // the least recently used entry first. Entries outlive their trust window
+  // so they can still be served stale when KV is down.
+  private memoryCache = new Map<string, MemoryEntry>()
+  private memoryBytes = 0
+  private evictions = 0
+  private layerStats = {
+    memory: { hits: 0, misses: 0 },
+    kv: { hits: 0, misses: 0, errors: 0 }
+  }
+  
+  // Refreshes in flight in this isolate, by cache key
+  private inflight = new Map<string, Promise<any>>()
+  private coalesced = 0
+  private lockWaits = 0
+  
+  constructor(config: Partial<EdgeCacheConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config }
+  }
   
   // Get from cache with fallback
   async get<T>(key: string, fetcher?: () => Promise<T>, ttl: number = DEFAULT_TTL): Promise<T | null> {
+    try {
+      return (await this.lookup(key, fetcher, { ttl })).data
+    } catch (error) {
+      console.error(`[CACHE] Fetcher error for ${key}:`, error)
+      return null
+    }
+  }
+  
+  // Get from cache, reporting whether the data is fresh, fetched or stale.
+  // Throws the fetcher's error when there is nothing stale to fall back on.
+  async lookup<T>(key: string, fetcher?: () => Promise<T>, options: CacheOptions = {}): Promise<CacheResult<T>> {
     const cacheKey = `${CACHE_PREFIX}${key}`
+    const {
+      ttl = DEFAULT_TTL,
+      staleWhileRevalidate = DEFAULT_STALE_WHILE_REVALIDATE,
+      staleIfError = DEFAULT_STALE_IF_ERROR
+    } = options
+    const now = Date.now()
     
     // 1. Check memory cache (fastest, <1ms)
-    const memoryCached = this.memoryCache.get(cacheKey)
-    if (memoryCached && memoryCached.expires > Date.now()) {
-      console.log(`[CACHE] Memory hit: ${key}`)
-      return memoryCached.data as T
+    let entry = this.readMemory(cacheKey, now)
+    
+    if (entry && entry.trustedUntil > now) {
+      this.layerStats.memory.hits++
+    } else {
+      this.layerStats.memory.misses++
+      
+      try {
+        // 2. Check KV store (fast, ~3ms)
+        const kvCached = await db.get(cacheKey)
+        if (kvCached && kvCached.data) {
+          this.layerStats.kv.hits++
+          const storedAt = Date.parse(kvCached.timestamp)
+          entry = {
+            data: kvCached.data,
+            size: kvCached.metadata?.size || sizeOf(kvCached.data),
+            storedAt,
+            expires: storedAt + (ttl + Math.max(staleWhileRevalidate, staleIfError)) * 1000,
+            trustedUntil: now + this.config.memoryTtl * 1000
+          }
+          this.writeMemory(cacheKey, entry)
+        } else {
+          // Gone from KV, so invalidated elsewhere
+          this.layerStats.kv.misses++
+          entry = undefined
+          this.deleteMemory(cacheKey)
+        }
+      } catch (error) {
+        // Keep whatever memory has as a stale fallback
+        this.layerStats.kv.errors++
+        console.warn(`[CACHE] KV error for ${key}:`, error)
+      }
+    }
+    
+    const age = entry ? (now - entry.storedAt) / 1000 : Infinity
+    
+    if (entry && age < ttl) {
+      console.log(`[CACHE] Hit: ${key}`)
+      return { data: entry.data as T, status: 'hit' }
+    }
+    
+    if (entry && (!fetcher || age < ttl + staleWhileRevalidate)) {
+      console.log(`[CACHE] Stale: ${key}`)
+      if (fetcher) {
+        waitUntil(this.revalidate(key, fetcher, ttl, options))
+      }
+      return { data: entry.data as T, status: 'stale', warning: '110 - "Response is Stale"' }
     }
     
+    if (!fetcher) {
+      return { data: null, status: 'miss' }
+    }
+    
+    // 3. Fetch fresh data
+    console.log(`[CACHE] Miss: ${key}, fetching fresh`)
     try {
-      // 2. Check KV store (fast, ~3ms)
-      const kvCached = await db.get(cacheKey)
-      if (kvCached && kvCached.data) {
-        console.log(`[CACHE] KV hit: ${key}`)
-        // Update memory cache
-        this.memoryCache.set(cacheKey, {
-          data: kvCached.data,
-          expires: Date.now() + 10000 // 10 seconds memory cache
-        })
-        return kvCached.data as T
+      const freshData = await this.refresh(key, fetcher, ttl, options, true)
+      
+      // Joined a background refresh that left the entry to another instance
+      if (freshData === null && entry) {
+        return { data: entry.data as T, status: 'stale', warning: '110 - "Response is Stale"' }
       }
+      
+      return { data: freshData, status: 'miss' }
     } catch (error) {
-      console.warn(`[CACHE] KV error for ${key}:`, error)
+      if (entry && age < ttl + staleIfError) {
+        console.warn(`[CACHE] Fetcher error for ${key}, serving stale:`, error)
+        return { data: entry.data as T, status: 'stale', warning: '111 - "Revalidation Failed"' }
+      }
+      throw error
     }
+  }
+  
+  // Set cache. KV keeps the entry past its TTL for as long as it may be served stale.
+  async set(key: string, data: any, ttl: number = DEFAULT_TTL, options: CacheOptions = {}): Promise<void> {
+    const cacheKey = `${CACHE_PREFIX}${key}`
+    const {
+      staleWhileRevalidate = DEFAULT_STALE_WHILE_REVALIDATE,
+      staleIfError = DEFAULT_STALE_IF_ERROR
+    } = options
+    const hardTTL = ttl + Math.max(staleWhileRevalidate, staleIfError)
+    const now = Date.now()
     
-    // 3. Fetch fresh data if fetcher provided
-    if (fetcher) {
-      console.log(`[CACHE] Miss: ${key}, fetching fresh`)
+    // Memory first, so a KV failure still leaves a copy to serve stale
+    this.writeMemory(cacheKey, {
+      data,
+      size: sizeOf(data),
+      storedAt: now,
+      expires: now + hardTTL * 1000,
+      trustedUntil: now + Math.min(ttl, this.config.memoryTtl) * 1000
+    })
+    
+    try {
+      // Store in KV
+      await db.set(cacheKey, data, hardTTL)
+      
+      if (options.index) {
+        await db.addToSet(`${INDEX_PREFIX}${options.index}`, [cacheKey], hardTTL)
+      }
+      
+      if (options.group) {
+        await db.addToSet(`${GROUP_PREFIX}${options.group}`, [cacheKey], hardTTL)
+      }
+      
+      const tags = typeof options.tags === 'function' ? options.tags(data) : options.tags
+      for (const tag of tags || []) {
+        await db.addToSet(`${TAG_PREFIX}${tag}`, [cacheKey], hardTTL)
+      }
+    } catch (error) {
+      console.error(`[CACHE] Set error for ${key}:`, error)
+    }
+  }
+  
+  // Refresh an entry after a stale read
+  private async revalidate<T>(key: string, fetcher: () => Promise<T>, ttl: number, options: CacheOptions): Promise<void> {
+    try {
+      if ((await this.refresh(key, fetcher, ttl, options, false)) !== null) {
+        console.log(`[CACHE] Revalidated: ${key}`)
+      }
+    } catch (error) {
+      console.warn(`[CACHE] Revalidation failed for ${key}:`, error)
+    }
+  }
+  
+  // Fetch and store an entry once per key: concurrent callers in this isolate
+  // share the pending refresh. With options.lock, an instance that loses the
+  // store lock waits for the winner's entry (`wait`) or leaves it be and
+  // resolves to null.
+  private refresh<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    ttl: number,
+    options: CacheOptions,
+    wait: boolean
+  ): Promise<T | null> {
+    const cacheKey = `${CACHE_PREFIX}${key}`
+    const pending = this.inflight.get(cacheKey)
+    
+    if (pending) {
+      console.log(`[CACHE] Coalesced: ${key}`)
+      this.coalesced++
+      return pending
+    }
+    
+    const run = async (): Promise<T | null> => {
+      const startedAt = Date.now()
+      const locked = options.lock ? await this.acquireLock(cacheKey) : true
+      
       try {
+        if (!locked) {
+          if (!wait) return null
+          
+          this.lockWaits++
+          const filled = await this.waitForEntry(cacheKey, startedAt)
+          if (filled !== undefined) {
+            this.coalesced++
+            return filled as T
+          }
+        }
+        
         const freshData = await fetcher()
         
         // Store in both caches
-        await this.set(key, freshData, ttl)
+        await this.set(key, freshData, ttl, options)
         
         return freshData
-      } catch (error) {
-        console.error(`[CACHE] Fetcher error for ${key}:`, error)
-        return null
+      } finally {
+        this.inflight.delete(cacheKey)
+        if (options.lock && locked) {
+          await this.releaseLock(cacheKey)
+        }
       }
     }
     
-    return null
+    const promise = run()
+    this.inflight.set(cacheKey, promise)
+    return promise
   }
   
-  // Set cache
-  async set(key: string, data: any, ttl: number = DEFAULT_TTL): Promise<void> {
-    const cacheKey = `${CACHE_PREFIX}${key}`
-    
+  // Counters double as the lock, so it expires with its holder. A store error
+  // counts as acquired: without a store there is nothing to protect.
+  private async acquireLock(cacheKey: string): Promise<boolean> {
     try {
-      // Store in KV
-      await db.set(cacheKey, data, ttl)
-      
-      // Store in memory with shorter TTL
-      this.memoryCache.set(cacheKey, {
-        data,
-        expires: Date.now() + Math.min(ttl * 1000, 10000)
-      })
+      return (await db.increment(`${LOCK_PREFIX}${cacheKey}`, LOCK_TTL)) === 1
     } catch (error) {
-      console.error(`[CACHE] Set error for ${key}:`, error)
+      console.warn(`[CACHE] Lock error for ${cacheKey}:`, error)
+      return true
+    }
+  }
+  
+  private async releaseLock(cacheKey: string): Promise<void> {
+    try {
+      await db.delete(`${LOCK_PREFIX}${cacheKey}`)
+    } catch (error) {
+      console.warn(`[CACHE] Unlock error for ${cacheKey}:`, error)
     }
   }
   
+  // Poll the store for an entry written after `since`; undefined on timeout
+  private async waitForEntry(cacheKey: string, since: number): Promise<any> {
+    const deadline = Date.now() + LOCK_WAIT
+    
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, LOCK_POLL))
+      
+      const entry = await db.get(cacheKey)
+      if (entry && entry.data && Date.parse(entry.timestamp) >= since) {
+        return entry.data
+      }
+    }
+    
+    return undefined
+  }
+  
   // Invalidate cache
   async invalidate(key: string): Promise<void> {
     const cacheKey = `${CACHE_PREFIX}${key}`
     
     try {
       await db.delete(cacheKey)
-      this.memoryCache.delete(cacheKey)
+      this.deleteMemory(cacheKey)
     } catch (error) {
       console.error(`[CACHE] Invalidate error for ${key}:`, error)
     }
   }
   
-  // Invalidate pattern (for wildcards)
-  async invalidatePattern(pattern: string): Promise<void> {
+  // Invalidate every entry recorded in an index set
+  async invalidateIndex(index: string): Promise<void> {
+    try {
+      await this.deleteMembers([`${INDEX_PREFIX}${index}`])
+    } catch (error) {
+      console.error(`[CACHE] Invalidate index error for ${index}:`, error)
+    }
+  }
+  
+  // Invalidate every entry recorded in a group, and the group itself
+  async invalidateGroup(group: string): Promise<void> {
+    try {
+      await this.deleteMembers([`${GROUP_PREFIX}${group}`])
+    } catch (error) {
+      console.error(`[CACHE] Invalidate group error for ${group}:`, error)
+    }
+  }
+  
+  // Store keys recorded in a group. Entries invalidated since they were
+  // recorded stay listed until the group expires with its latest entry.
+  async groupEntries(group: string): Promise<string[]> {
+    return await db.getSet(`${GROUP_PREFIX}${group}`)
+  }
+  
+  // Invalidate every entry carrying any of the tags
+  async invalidateTags(tags: string[]): Promise<void> {
+    if (tags.length === 0) return
+    
     try {
-      const keys = await db.list(`${CACHE_PREFIX}${pattern}`)
-      for (const key of keys) {
-        await db.delete(key)
-        this.memoryCache.delete(key)
+      await this.deleteMembers(tags.map(tag => `${TAG_PREFIX}${tag}`))
+    } catch (error) {
+      console.error(`[CACHE] Invalidate tags error for ${tags.join(', ')}:`, error)
+    }
+  }
+  
+  // Invalidate pattern (for wildcards), a page of keys at a time. `filter`
+  // narrows the matching cache keys further, e.g. to one namespace.
+  async invalidatePattern(pattern: string, filter: (cacheKey: string) => boolean = () => true): Promise<void> {
+    const matcher = globToRegExp(`${CACHE_PREFIX}${pattern}`)
+    this.memoryCache.forEach((value, key) => {
+      if (matcher.test(key) && filter(key)) {
+        this.deleteMemory(key)
       }
+    })
+    
+    try {
+      await this.deleteScanned(`${CACHE_PREFIX}${pattern}`, filter)
     } catch (error) {
       console.error(`[CACHE] Invalidate pattern error for ${pattern}:`, error)
     }
@@ -99,12 +400,11 @@ export class EdgeCache {
   
   // Clear all caches
   async clear(): Promise<void> {
+    this.memoryCache.clear()
+    this.memoryBytes = 0
+    
     try {
-      const keys = await db.list(`${CACHE_PREFIX}*`)
-      for (const key of keys) {
-        await db.delete(key)
-      }
-      this.memoryCache.clear()
+      await this.deleteScanned(`${CACHE_PREFIX}*`)
     } catch (error) {
       console.error('[CACHE] Clear error:', error)
     }
@@ -115,18 +415,113 @@ export class EdgeCache {
     return {
       memoryEntries: this.memoryCache.size,
       memoryKeys: Array.from(this.memoryCache.keys()),
+      memoryBytes: this.memoryBytes,
+      evictions: this.evictions,
+      limits: { ...this.config },
+      layers: {
+        memory: { ...this.layerStats.memory },
+        kv: { ...this.layerStats.kv }
+      },
+      inflight: this.inflight.size,
+      coalesced: this.coalesced,
+      lockWaits: this.lockWaits,
     }
   }
   
   // Cleanup expired memory cache entries
   cleanupMemory(): void {
     const now = Date.now()
-    for (const [key, value] of this.memoryCache.entries()) {
+    this.memoryCache.forEach((value, key) => {
       if (value.expires <= now) {
-        this.memoryCache.delete(key)
+        this.deleteMemory(key)
       }
+    })
+  }
+  
+  // Delete the store keys matching a pattern (and the filter), one batch per scanned page
+  private async deleteScanned(pattern: string, filter: (cacheKey: string) => boolean = () => true): Promise<void> {
+    let cursor = '0'
+    
+    do {
+      const page = await db.scan(pattern, cursor)
+      await db.deleteMany(page.keys.filter(filter))
+      cursor = page.cursor
+    } while (cursor !== '0')
+  }
+  
+  // Delete the entries listed in some sets, then the sets themselves
+  private async deleteMembers(setKeys: string[]): Promise<void> {
+    const keys = new Set<string>()
+    
+    for (const setKey of setKeys) {
+      (await db.getSet(setKey)).forEach(key => keys.add(key))
     }
+    
+    await db.deleteMany([...Array.from(keys), ...setKeys])
+    keys.forEach(key => this.deleteMemory(key))
   }
+  
+  // Memory entry by cache key, marked as most recently used
+  private readMemory(cacheKey: string, now: number): MemoryEntry | undefined {
+    const entry = this.memoryCache.get(cacheKey)
+    if (!entry) return undefined
+    
+    if (entry.expires <= now) {
+      this.deleteMemory(cacheKey)
+      return undefined
+    }
+    
+    this.memoryCache.delete(cacheKey)
+    this.memoryCache.set(cacheKey, entry)
+    return entry
+  }
+  
+  // Store a memory entry, evicting least recently used ones past the limits.
+  // Entries larger than the whole tier stay in KV only.
+  private writeMemory(cacheKey: string, entry: MemoryEntry): void {
+    this.deleteMemory(cacheKey)
+    if (entry.size > this.config.maxBytes) return
+    
+    this.memoryCache.set(cacheKey, entry)
+    this.memoryBytes += entry.size
+    
+    while (this.memoryCache.size > this.config.maxEntries || this.memoryBytes > this.config.maxBytes) {
+      const oldest = this.memoryCache.keys().next().value as string
+      this.deleteMemory(oldest)
+      this.evictions++
+    }
+  }
+  
+  private deleteMemory(cacheKey: string): void {
+    const entry = this.memoryCache.get(cacheKey)
+    if (entry) {
+      this.memoryBytes -= entry.size
+      this.memoryCache.delete(cacheKey)
+    }
+  }
+}
+
+// Approximate size of a cached value: its JSON length
+function sizeOf(data: any): number {
+  return (JSON.stringify(data) || '').length
+}
+
+// Validate client-supplied tags, given as an array or a comma-separated string
+export function parseCacheTags(input: any): { tags?: string[]; error?: string } {
+  if (input === undefined || input === null || input === '') return {}
+  
+  const list = typeof input === 'string' ? input.split(',').map(tag => tag.trim()).filter(Boolean) : input
+  
+  if (!Array.isArray(list) || list.some(tag => typeof tag !== 'string' || !TAG_PATTERN.test(tag))) {
+    return { error: 'Tags must be names of letters, digits, ".", "-" and "_" (max 64 characters)' }
+  }
+  
+  const tags = Array.from(new Set<string>(list))
+  if (tags.length > MAX_TAGS) {
+    return { error: `Maximum ${MAX_TAGS} tags per document` }
+  }
+  
+  return { tags }
 }
 
 export const cache = new EdgeCache()
@@ -0,0 +1,78 @@
+// lib/compression.ts - Compression of large stored documents through CompressionStream
+export type ContentEncoding = 'br' | 'gzip' | 'deflate'
+
+// Documents whose JSON reaches this many bytes are stored compressed
+// (COMPRESSION_THRESHOLD, default 16KB; 0 compresses everything)
+const threshold = parseInt(process.env.COMPRESSION_THRESHOLD || '', 10)
+export const COMPRESSION_THRESHOLD = threshold >= 0 ? threshold : 16 * 1024
+
+// In order of preference; brotli only where the runtime's CompressionStream has it
+const ENCODINGS: ContentEncoding[] = ['br', 'gzip', 'deflate']
+
+let preferred: ContentEncoding | null | undefined
+
+// Encoding new documents are stored with, or null without CompressionStream
+export function preferredEncoding(): ContentEncoding | null {
+  if (preferred === undefined) {
+    preferred = ENCODINGS.find(isSupported) || null
+  }
+  return preferred
+}
+
+function isSupported(encoding: ContentEncoding): boolean {
+  try {
+    new CompressionStream(encoding as CompressionFormat)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function compress(text: string, encoding: ContentEncoding): Promise<Uint8Array> {
+  const stream = new Response(text).body!.pipeThrough(new CompressionStream(encoding as CompressionFormat))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+export async function decompress(bytes: Uint8Array, encoding: ContentEncoding): Promise<string> {
+  const stream = new Response(bytes as BodyInit).body!.pipeThrough(new DecompressionStream(encoding as CompressionFormat))
+  return await new Response(stream).text()
+}
+
+// Decompress bytes as they are read
+export function decompressStream(stream: ReadableStream<Uint8Array>, encoding: ContentEncoding): ReadableStream<Uint8Array> {
+  return stream.pipeThrough(new DecompressionStream(encoding as CompressionFormat) as TransformStream<Uint8Array, Uint8Array>)
+}
+
+// Whether an Accept-Encoding header takes the encoding, by name or through "*"
+export function acceptsEncoding(header: string | null, encoding: ContentEncoding): boolean {
+  let wildcard = false
+
+  for (const part of (header || '').split(',')) {
+    const [name, ...params] = part.split(';').map(piece => piece.trim().toLowerCase())
+    const q = params.find(param => param.startsWith('q='))
+    const accepted = !q || parseFloat(q.slice(2)) > 0
+
+    if (name === encoding) return accepted
+    if (name === '*') wildcard = accepted
+  }
+
+  return wildcard
+}
+
+// Store values are JSON, so compressed bytes are kept as base64
+export function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)))
+  }
+  return btoa(binary)
+}
+
+export function fromBase64(text: string): Uint8Array {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
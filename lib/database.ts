@@ -1,5 +1,16 @@
-// lib/database.ts - Vercel KV (Redis) setup
-import { kv } from '@vercel/kv'
+// lib/database.ts - Storage layer on top of the configured driver
+import { createStorageDriver, RecordGuard, ScanResult, SetChange, StorageDriver } from './storage'
+import {
+  compress,
+  COMPRESSION_THRESHOLD,
+  ContentEncoding,
+  decompress,
+  decompressStream,
+  fromBase64,
+  preferredEncoding,
+  toBase64
+} from './compression'
+import { hashString, matchesETag, sha256, VaryPolicy } from './utils'
 
 export type JSONData = {
   id: string
@@ -7,59 +18,273 @@ export type JSONData = {
   timestamp: string
   version: number
   metadata?: {
+    // Bytes of the data's JSON, and of its compressed form when stored compressed
     size: number
+    compressedSize?: number
+    // Set when the stored data is the base64 of its JSON in this encoding
+    compression?: ContentEncoding
+    // Set when the stored data is split into chunks: their hashes, in order
+    chunks?: string[]
     format: string
+    hash?: string
     expires?: string
     region?: string
+    deleted?: boolean
+    tags?: string[]
+    vary?: VaryPolicy
   }
 }
 
-// Initialize KV store
+// Settings of a write. The cache settings carry over to later versions
+// unless replaced; the source format describes this version alone.
+export type WriteOptions = {
+  // Cache tags the document belongs to
+  tags?: string[]
+  // Which requests share a cached read of it
+  vary?: VaryPolicy
+  // Format the data was uploaded in, e.g. "yaml"; JSON by default
+  format?: string
+}
+
+export type VersionInfo = {
+  version: number
+  timestamp: string
+  size: number
+  deleted?: boolean
+  // When the version was written with a TTL, the time it expires
+  expires?: string
+}
+
+// Number of versions kept per key (VERSION_RETENTION, default 10)
+export const VERSION_RETENTION = Math.max(1, parseInt(process.env.VERSION_RETENTION || '10') || 10)
+
+// Largest document accepted, in bytes of JSON (MAX_FILE_SIZE, default 10MB)
+export const MAX_FILE_SIZE = Math.max(1, parseInt(process.env.MAX_FILE_SIZE || '') || 10 * 1024 * 1024)
+
+// Stored data longer than this is split into chunks of at most this size
+// (STORAGE_CHUNK_SIZE, default 512KB). A multiple of 4, so base64 chunks
+// decode on their own.
+const CHUNK_SIZE = Math.max(4, Math.floor((parseInt(process.env.STORAGE_CHUNK_SIZE || '') || 512 * 1024) / 4) * 4)
+
+// Times a conditional write is retried when the record it checked changes
+// before it commits, but still satisfies the precondition
+const WRITE_ATTEMPTS = 3
+
+// Keys examined per SCAN call, and keys per batched delete
+const SCAN_COUNT = 500
+const DELETE_BATCH = 100
+
+const VERSION_INDEX_PREFIX = 'versions:index:'
+const VERSION_SNAPSHOT_PREFIX = 'versions:snapshot:'
+const CHUNK_PREFIX = 'chunks:'
+
+// Prefixes the app uses for its own bookkeeping; these writes are not versioned
+export const INTERNAL_PREFIXES = ['cache:', 'updates:', 'versions:', 'health:', 'schemas:', 'auth:', 'namespaces:', 'ratelimit:', 'locks:', 'metrics:', 'warmup:', 'chunks:', 'uploads:', 'batches:']
+
+// Documents of a namespace are stored as "ns:<namespace>:<key>"
+export const NAMESPACE_PREFIX = 'ns:'
+
+// Namespace of the unprefixed keys
+export const DEFAULT_NAMESPACE = 'default'
+
+// The document keys of each namespace are kept in a set, changed in the same
+// commit as the documents, so its usage is read without scanning the store
+const NAMESPACE_KEYS_PREFIX = 'namespaces:keys:'
+
+export function namespaceKeySet(namespace: string): string {
+  return `${NAMESPACE_KEYS_PREFIX}${namespace}`
+}
+
+export function isInternalKey(key: string): boolean {
+  return INTERNAL_PREFIXES.some(prefix => key.startsWith(prefix))
+}
+
+// Keys clients may not address directly: bookkeeping and other namespaces
+export function isReservedKey(key: string): boolean {
+  return isInternalKey(key) || key.startsWith(NAMESPACE_PREFIX)
+}
+
+// Backing store, chosen by STORAGE_DRIVER (kv | memory | file)
+export const storage: StorageDriver = createStorageDriver()
+
 export const db = {
-  // Store JSON data
-  async set(key: string, data: any, ttlSeconds?: number): Promise<void> {
-    const jsonData: JSONData = {
-      id: key,
-      data,
-      timestamp: new Date().toISOString(),
-      version: 1,
-      metadata: {
-        size: JSON.stringify(data).length,
-        format: 'json',
-        expires: ttlSeconds ? new Date(Date.now() + ttlSeconds * 1000).toISOString() : undefined
-      }
+  // Active driver name, e.g. for health reporting
+  driver: storage.name,
+  
+  // Store JSON data as a new version of the key
+  async set(key: string, data: any, ttlSeconds?: number, options: WriteOptions = {}): Promise<JSONData> {
+    if (isInternalKey(key)) {
+      const record = createRecord(key, data, 1, ttlSeconds, options)
+      const stored = await encodeRecord(record, ttlSeconds)
+      await storage.set(key, stored, ttlSeconds)
+      return { ...record, metadata: stored.metadata }
     }
     
-    if (ttlSeconds) {
-      await kv.setex(key, ttlSeconds, jsonData)
-    } else {
-      await kv.set(key, jsonData)
+    const { record, stored, history } = await prepareVersion(key, data, ttlSeconds, options)
+    const versions = versionEntries(stored, history)
+    
+    // Chunks are written first, so this swaps the whole document at once,
+    // together with its version snapshot
+    await storage.mset([[key, stored, ttlSeconds], ...versions.entries], [keySetChange(key)])
+    await pruneVersions(key, versions.pruned, versions.retained)
+    
+    return { ...record, metadata: stored.metadata }
+  },
+  
+  // Store a new version only if the stored record is still `expected` (null:
+  // no document), checked and written in one step. Otherwise nothing is
+  // written and the ETag of the record stored now is returned.
+  async setIf(
+    key: string,
+    data: any,
+    expected: JSONData | null,
+    ttlSeconds?: number,
+    options: WriteOptions = {}
+  ): Promise<{ ok: boolean; etag: string | null; record?: JSONData }> {
+    const { record, stored, history } = await prepareVersion(key, data, ttlSeconds, options, expected)
+    const versions = versionEntries(stored, history)
+    
+    const entries: Array<[string, any, number?]> = [[key, stored, ttlSeconds], ...versions.entries]
+    if (!(await storage.commitIf([guardFor(key, expected)], entries, [], [keySetChange(key)]))) {
+      await discardChunks(key, [stored])
+      const current = await storage.get<JSONData>(key)
+      return { ok: false, etag: current ? getETag(current) : null }
     }
+    await pruneVersions(key, versions.pruned, versions.retained)
+    
+    const written = { ...record, metadata: stored.metadata }
+    return { ok: true, etag: getETag(written), record: written }
+  },
+  
+  // Store a new version if the stored record matches an If-Match header, or
+  // unconditionally without one. When another write lands between the check
+  // and the commit, the header is checked again against that write.
+  async setIfMatch(
+    key: string,
+    data: any,
+    ifMatch: string | null,
+    ttlSeconds?: number,
+    options: WriteOptions = {}
+  ): Promise<{ ok: boolean; etag: string | null; record?: JSONData }> {
+    if (!ifMatch) {
+      const record = await this.set(key, data, ttlSeconds, options)
+      return { ok: true, etag: getETag(record), record }
+    }
+    
+    let result: { ok: boolean; etag: string | null; record?: JSONData } = { ok: false, etag: null }
+    for (let attempt = 0; attempt < WRITE_ATTEMPTS; attempt++) {
+      const precondition = await this.checkIfMatch(key, ifMatch)
+      if (!precondition.ok) return { ok: false, etag: precondition.etag }
+      
+      result = await this.setIf(key, data, precondition.current, ttlSeconds, options)
+      if (result.ok) break
+    }
+    return result
   },
   
   // Get JSON data
   async get(key: string): Promise<JSONData | null> {
-    return await kv.get<JSONData>(key)
+    return await decodeRecord(await storage.get<JSONData>(key))
+  },
+  
+  // Get the record as stored: compressed data stays encoded, e.g. to send it
+  // on without recompressing, and chunked data stays in its chunks
+  async getStored(key: string): Promise<JSONData | null> {
+    return await storage.get<JSONData>(key)
+  },
+  
+  // Stored bytes of a record's data, read a chunk at a time: the compressed
+  // bytes when it is stored compressed, its JSON otherwise
+  streamStored(record: JSONData): ReadableStream<Uint8Array> {
+    const { compression, chunks } = record.metadata || {}
+    const parts = chunks || [null]
+    const toBytes = (text: string) => compression ? fromBase64(text) : new TextEncoder().encode(text)
+    let next = 0
+    
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (next >= parts.length) {
+          controller.close()
+          return
+        }
+        
+        const hash = parts[next++]
+        try {
+          const text = hash === null
+            ? (compression ? record.data : JSON.stringify(record.data))
+            : (await readChunks(record.id, [hash]))
+          controller.enqueue(toBytes(text))
+        } catch (error) {
+          controller.error(error)
+        }
+      }
+    })
+  },
+  
+  // JSON of a record's data, read and decompressed a chunk at a time, so a
+  // large document is never held whole
+  streamData(record: JSONData): ReadableStream<Uint8Array> {
+    const stored = this.streamStored(record)
+    return record.metadata?.compression ? decompressStream(stored, record.metadata.compression) : stored
   },
   
   // Delete data
   async delete(key: string): Promise<void> {
-    await kv.del(key)
+    await storage.del(key)
   },
   
-  // List all keys with pattern
+  // List all keys with pattern, scanning in pages rather than with KEYS
   async list(pattern: string = '*'): Promise<string[]> {
-    return await kv.keys(pattern)
+    const keys = new Set<string>()
+    let cursor = '0'
+    
+    do {
+      const page = await storage.scan(cursor, pattern, SCAN_COUNT)
+      page.keys.forEach(key => keys.add(key))
+      cursor = page.cursor
+    } while (cursor !== '0')
+    
+    return Array.from(keys)
   },
   
-  // Increment counter
-  async increment(key: string): Promise<number> {
-    return await kv.incr(key)
+  // One page of keys matching pattern; pass the returned cursor to continue
+  // ('0' when done). Pages hold at least `limit` keys unless the scan ends.
+  async scan(pattern: string = '*', cursor: string = '0', limit: number = SCAN_COUNT): Promise<ScanResult> {
+    const keys: string[] = []
+    
+    do {
+      const page = await storage.scan(cursor, pattern, Math.min(limit, SCAN_COUNT))
+      keys.push(...page.keys)
+      cursor = page.cursor
+    } while (cursor !== '0' && keys.length < limit)
+    
+    return { cursor, keys }
+  },
+  
+  // Delete many keys in batches of one round trip each
+  async deleteMany(keys: string[]): Promise<void> {
+    for (let i = 0; i < keys.length; i += DELETE_BATCH) {
+      await storage.mdel(keys.slice(i, i + DELETE_BATCH))
+    }
+  },
+  
+  // Add members to a set; ttlSeconds refreshes the set's lifetime
+  async addToSet(key: string, members: string[], ttlSeconds?: number): Promise<void> {
+    await storage.sadd(key, members, ttlSeconds)
+  },
+  
+  async getSet(key: string): Promise<string[]> {
+    return await storage.smembers(key)
+  },
+  
+  // Increment counter; ttlSeconds sets the lifetime of a new counter
+  async increment(key: string, ttlSeconds?: number): Promise<number> {
+    return await storage.incr(key, ttlSeconds)
   },
   
   // Check if key exists
   async exists(key: string): Promise<boolean> {
-    return (await kv.exists(key)) === 1
+    return await storage.exists(key)
   },
   
   // Set with JSON string
@@ -74,33 +299,408 @@ export const db = {
   
   // Get multiple keys
   async mget(keys: string[]): Promise<(JSONData | null)[]> {
-    return await kv.mget<JSONData>(...keys)
+    return await Promise.all((await storage.mget<JSONData>(keys)).map(decodeRecord))
+  },
+  
+  // Set multiple keys, with their version snapshots, in one transaction. Like
+  // set, tags and variance policy left out of an entry's options are kept
+  // from the key's current record.
+  // `expected` holds, per key, the stored record an entry was checked against
+  // (null: no document); if any has changed, nothing is written and null is
+  // returned.
+  async mset(
+    entries: Array<[string, any, WriteOptions?]>,
+    ttl?: number,
+    expected: Record<string, JSONData | null> = {}
+  ): Promise<JSONData[] | null> {
+    const records: JSONData[] = []
+    const latest = new Map<string, JSONData>()
+    const guarded = Object.keys(expected)
+    
+    for (const [key, data, options = {}] of entries) {
+      if (isInternalKey(key)) {
+        records.push(createRecord(key, data, 1, ttl, options))
+        continue
+      }
+      
+      // Repeated keys in one batch get consecutive versions, following the
+      // checked record for guarded keys
+      const previous = latest.get(key)
+      const checked = guarded.indexOf(key) !== -1 ? expected[key] : undefined
+      const version = previous
+        ? previous.version + 1
+        : Math.max(await nextVersion(key, await this.listVersions(key)), (checked?.version || 0) + 1)
+      const current = previous?.metadata || (checked !== undefined
+        ? checked?.metadata
+        : options.tags === undefined || options.vary === undefined
+          ? (await storage.get<JSONData>(key))?.metadata
+          : undefined)
+      
+      const record = createRecord(key, data, version, ttl, {
+        tags: options.tags ?? current?.tags,
+        vary: options.vary ?? current?.vary,
+        format: options.format
+      })
+      latest.set(key, record)
+      records.push(record)
+    }
+    
+    const stored: JSONData[] = []
+    for (const record of records) {
+      stored.push(await encodeRecord(record, ttl))
+    }
+    
+    // Versions of a key repeated in the batch build on each other
+    const writes: Array<[string, any, number?]> = stored.map((record): [string, JSONData, number?] => [record.id, record, ttl])
+    const histories = new Map<string, VersionInfo[]>()
+    const pruned = new Map<string, VersionInfo[]>()
+    
+    for (const record of stored) {
+      if (isInternalKey(record.id)) continue
+      
+      const history = histories.get(record.id) || await this.listVersions(record.id)
+      const versions = versionEntries(record, history)
+      
+      writes.push(...versions.entries)
+      histories.set(record.id, versions.retained)
+      pruned.set(record.id, [...(pruned.get(record.id) || []), ...versions.pruned])
+    }
+    
+    const changes = Array.from(histories.keys()).map(key => keySetChange(key))
+    
+    if (guarded.length === 0) {
+      await storage.mset(writes, changes)
+    } else if (!(await storage.commitIf(guarded.map(key => guardFor(key, expected[key])), writes, [], changes))) {
+      for (const key of Array.from(new Set(stored.map(record => record.id)))) {
+        await discardChunks(key, stored.filter(record => record.id === key))
+      }
+      return null
+    }
+    
+    for (const key of Array.from(histories.keys())) {
+      await pruneVersions(key, pruned.get(key)!, histories.get(key)!)
+    }
+    
+    return records.map((record, i) => ({ ...record, metadata: stored[i].metadata }))
   },
   
-  // Set multiple keys
-  async mset(entries: Array<[string, any]>, ttl?: number): Promise<void> {
-    const pipeline = kv.pipeline()
+  // Delete a document. Soft deletes record a tombstone version so the key can
+  // still be restored; hard deletes drop the document and all its versions.
+  // With ifMatch the document is only removed while it matches, as in
+  // setIfMatch; `tombstone` is set for soft deletes.
+  async deleteDocument(
+    key: string,
+    options: { soft?: boolean; ifMatch?: string | null } = {}
+  ): Promise<{ ok: boolean; etag: string | null; tombstone?: JSONData }> {
+    let removed: JSONData | null = null
+    
+    for (let attempt = 1; ; attempt++) {
+      const precondition = await this.checkIfMatch(key, options.ifMatch || null)
+      if (!precondition.ok) return { ok: false, etag: precondition.etag }
+      removed = precondition.current
+      
+      // Without guards the commit always applies
+      const guards = options.ifMatch ? [guardFor(key, removed)] : []
+      if (await storage.commitIf(guards, [], [key], [keySetChange(key, true)])) break
+      
+      if (attempt >= WRITE_ATTEMPTS) {
+        const current = await storage.get<JSONData>(key)
+        return { ok: false, etag: current ? getETag(current) : null }
+      }
+    }
     
-    entries.forEach(([key, data]) => {
-      const jsonData: JSONData = {
+    const history = await this.listVersions(key)
+    
+    if (options.soft) {
+      const tombstone: JSONData = {
         id: key,
-        data,
+        data: null,
         timestamp: new Date().toISOString(),
-        version: 1,
-        metadata: {
-          size: JSON.stringify(data).length,
-          format: 'json'
-        }
+        version: Math.max(await nextVersion(key, history), (removed?.version || 0) + 1),
+        metadata: { size: 0, format: 'json', deleted: true }
       }
       
-      if (ttl) {
-        pipeline.setex(key, ttl, jsonData)
-      } else {
-        pipeline.set(key, jsonData)
-      }
-    })
+      await saveVersion(tombstone, history)
+      return { ok: true, etag: null, tombstone }
+    }
+    
+    const snapshots = history.map(({ version }) => `${VERSION_SNAPSHOT_PREFIX}${key}:${version}`)
+    const records = await storage.mget<JSONData>(snapshots)
+    
+    await this.deleteMany([
+      ...snapshots,
+      `${VERSION_INDEX_PREFIX}${key}`,
+      ...chunkKeys(key, [removed, ...records])
+    ])
+    return { ok: true, etag: null }
+  },
+  
+  // Evaluate an If-Match precondition against the currently stored record,
+  // returned as `current` for a write conditional on it
+  async checkIfMatch(key: string, ifMatch: string | null): Promise<{ ok: boolean; etag: string | null; current: JSONData | null }> {
+    const current = await this.getStored(key)
+    const etag = current ? getETag(current) : null
+    
+    return { ok: !ifMatch || matchesETag(ifMatch, etag), etag, current }
+  },
+  
+  // List retained versions of a key, oldest first
+  async listVersions(key: string): Promise<VersionInfo[]> {
+    const index = await storage.get<VersionInfo[]>(`${VERSION_INDEX_PREFIX}${key}`)
+    return index || []
+  },
+  
+  // Version histories of several keys in one round trip
+  async mgetVersions(keys: string[]): Promise<VersionInfo[][]> {
+    if (keys.length === 0) return []
+    const indexes = await storage.mget<VersionInfo[]>(keys.map(key => `${VERSION_INDEX_PREFIX}${key}`))
+    return indexes.map(index => index || [])
+  },
+  
+  // Get a specific version of a key
+  async getVersion(key: string, version: number): Promise<JSONData | null> {
+    return await decodeRecord(await storage.get<JSONData>(`${VERSION_SNAPSHOT_PREFIX}${key}:${version}`))
+  },
+  
+  // Get the version of a key that was current at the given time
+  async getAt(key: string, at: Date): Promise<JSONData | null> {
+    const history = await this.listVersions(key)
+    const match = history.filter(v => new Date(v.timestamp).getTime() <= at.getTime()).pop()
+    
+    return match ? await this.getVersion(key, match.version) : null
+  }
+}
+
+// Strong entity tag for a stored record, derived from its version and content hash
+export function getETag(record: Pick<JSONData, 'version' | 'data' | 'metadata'>): string {
+  const hash = record.metadata?.hash || hashString(JSON.stringify(record.data))
+  return `"${record.version}-${hash}"`
+}
+
+// Build the stored record for a write
+function createRecord(key: string, data: any, version: number, ttlSeconds?: number, options: WriteOptions = {}): JSONData {
+  const { tags, vary, format = 'json' } = options
+  const json = JSON.stringify(data)
+  
+  return {
+    id: key,
+    data,
+    timestamp: new Date().toISOString(),
+    version,
+    metadata: {
+      size: json.length,
+      format,
+      hash: hashString(json),
+      expires: ttlSeconds ? new Date(Date.now() + ttlSeconds * 1000).toISOString() : undefined,
+      ...(tags && tags.length > 0 && { tags }),
+      ...(vary && { vary })
+    }
+  }
+}
+
+// A new version of a document, numbered after the key's history and, for a
+// conditional write, the record it expects. Tags and variance policy left
+// out of the options are kept from the current record.
+async function prepareVersion(
+  key: string,
+  data: any,
+  ttlSeconds: number | undefined,
+  options: WriteOptions,
+  expected?: JSONData | null
+): Promise<{ record: JSONData; stored: JSONData; history: VersionInfo[] }> {
+  const history = await db.listVersions(key)
+  const previous = expected !== undefined
+    ? expected?.metadata
+    : options.tags === undefined || options.vary === undefined
+      ? (await storage.get<JSONData>(key))?.metadata
+      : undefined
+  
+  const record = createRecord(key, data, Math.max(await nextVersion(key, history), (expected?.version || 0) + 1), ttlSeconds, {
+    tags: options.tags ?? previous?.tags,
+    vary: options.vary ?? previous?.vary,
+    format: options.format
+  })
+  
+  return { record, stored: await encodeRecord(record, ttlSeconds), history }
+}
+
+// Add a document key to its namespace's key set, or remove it
+function keySetChange(key: string, remove?: boolean): SetChange {
+  const namespace = key.startsWith(NAMESPACE_PREFIX)
+    ? key.slice(NAMESPACE_PREFIX.length, key.indexOf(':', NAMESPACE_PREFIX.length))
+    : DEFAULT_NAMESPACE
+  
+  return { key: namespaceKeySet(namespace), member: key, ...(remove && { remove }) }
+}
+
+// What a conditional write expects at a key: the given record, or no document
+function guardFor(key: string, record: JSONData | null): RecordGuard {
+  return {
+    key,
+    version: record?.version || 0,
+    ...(record?.metadata?.hash && { hash: record.metadata.hash })
+  }
+}
+
+// Stored form of a record: data of large documents is compressed, when that
+// makes it smaller, and data still too long for one value is written to
+// chunks, leaving a manifest of them for the record
+async function encodeRecord(record: JSONData, ttlSeconds?: number): Promise<JSONData> {
+  const stored = await compressRecord(record)
+  const payload = stored.metadata?.compression ? stored.data as string : JSON.stringify(stored.data)
+  if (payload.length <= CHUNK_SIZE) return stored
+  
+  // Chunks are addressed by content within their key, so versions share the
+  // chunks they have in common. Existing chunks are left alone: the current
+  // document and retained versions may still need them. Chunks of documents
+  // don't expire; they go once no retained version refers to them. Those of
+  // bookkeeping records, which have no versions, expire with them.
+  const chunks: string[] = []
+  for (let start = 0; start < payload.length;) {
+    let end = Math.min(start + CHUNK_SIZE, payload.length)
+    if (end < payload.length && /[\ud800-\udbff]/.test(payload[end - 1])) end--
+    
+    const chunk = payload.slice(start, end)
+    const hash = await sha256(chunk)
+    const chunkKey = `${CHUNK_PREFIX}${record.id}:${hash}`
+    
+    if (isInternalKey(record.id)) {
+      await storage.set(chunkKey, { data: chunk }, ttlSeconds)
+    } else if (!(await storage.exists(chunkKey))) {
+      await storage.set(chunkKey, { data: chunk })
+    }
     
-    await pipeline.exec()
+    chunks.push(hash)
+    start = end
+  }
+  
+  return { ...stored, data: null, metadata: { ...stored.metadata!, chunks } }
+}
+
+async function compressRecord(record: JSONData): Promise<JSONData> {
+  const encoding = preferredEncoding()
+  const size = record.metadata?.size || 0
+  if (!encoding || !record.metadata || size < COMPRESSION_THRESHOLD) return record
+  
+  const bytes = await compress(JSON.stringify(record.data), encoding)
+  const encoded = toBase64(bytes)
+  if (encoded.length >= size) return record
+  
+  return {
+    ...record,
+    data: encoded,
+    metadata: { ...record.metadata, compression: encoding, compressedSize: bytes.length }
+  }
+}
+
+// A stored record with its data reassembled and decompressed; the metadata
+// still tells how it is stored
+async function decodeRecord(record: JSONData | null): Promise<JSONData | null> {
+  const { compression, chunks } = record?.metadata || {}
+  if (!record || (!compression && !chunks)) return record
+  
+  const payload = chunks ? await readChunks(record.id, chunks) : record.data
+  const text = compression ? await decompress(fromBase64(payload), compression) : payload
+  
+  return { ...record, data: JSON.parse(text) }
+}
+
+async function readChunks(key: string, chunks: string[]): Promise<string> {
+  const parts = await storage.mget<{ data: string }>(chunks.map(hash => `${CHUNK_PREFIX}${key}:${hash}`))
+  
+  return parts
+    .map((part, i) => {
+      if (!part) throw new Error(`Chunk ${chunks[i]} of "${key}" is missing`)
+      return part.data
+    })
+    .join('')
+}
+
+// Keys of the chunks the given records of a key refer to
+function chunkKeys(key: string, records: (JSONData | null)[]): string[] {
+  const keys = new Set<string>()
+  records.forEach(record => {
+    record?.metadata?.chunks?.forEach(hash => keys.add(`${CHUNK_PREFIX}${key}:${hash}`))
+  })
+  return Array.from(keys)
+}
+
+// Next version number, continuing from documents written before history existed
+async function nextVersion(key: string, history: VersionInfo[]): Promise<number> {
+  if (history.length > 0) {
+    return history[history.length - 1].version + 1
+  }
+  
+  const current = await storage.get<JSONData>(key)
+  return (current?.version || 0) + 1
+}
+
+// Snapshot a record and prune versions beyond the retention count
+async function saveVersion(record: JSONData, history: VersionInfo[]): Promise<void> {
+  const versions = versionEntries(record, history)
+  
+  await storage.mset(versions.entries)
+  await pruneVersions(record.id, versions.pruned, versions.retained)
+}
+
+// Writes adding a record to its key's history, its snapshot and the updated
+// index, to commit with the record itself. Versions beyond the retention
+// count leave the index; prune them once the writes are committed.
+function versionEntries(
+  record: JSONData,
+  history: VersionInfo[]
+): { entries: Array<[string, any]>; retained: VersionInfo[]; pruned: VersionInfo[] } {
+  const updated = [
+    ...history,
+    {
+      version: record.version,
+      timestamp: record.timestamp,
+      size: record.metadata?.size || 0,
+      ...(record.metadata?.deleted && { deleted: true }),
+      ...(record.metadata?.expires && { expires: record.metadata.expires })
+    }
+  ]
+  const pruned = updated.slice(0, Math.max(0, updated.length - VERSION_RETENTION))
+  const retained = updated.slice(pruned.length)
+  
+  return {
+    entries: [
+      [`${VERSION_SNAPSHOT_PREFIX}${record.id}:${record.version}`, record],
+      [`${VERSION_INDEX_PREFIX}${record.id}`, retained]
+    ],
+    retained,
+    pruned
+  }
+}
+
+// Delete the snapshots of pruned versions, and their chunks unless a retained
+// version shares them
+async function pruneVersions(key: string, pruned: VersionInfo[], retained: VersionInfo[]): Promise<void> {
+  if (pruned.length === 0) return
+  
+  const snapshotKey = ({ version }: VersionInfo) => `${VERSION_SNAPSHOT_PREFIX}${key}:${version}`
+  const prunedChunks = chunkKeys(key, await storage.mget<JSONData>(pruned.map(snapshotKey)))
+  let orphaned: string[] = []
+  if (prunedChunks.length > 0) {
+    const kept = new Set(chunkKeys(key, await storage.mget<JSONData>(retained.map(snapshotKey))))
+    orphaned = prunedChunks.filter(chunkKey => !kept.has(chunkKey))
+  }
+  
+  await storage.mdel([...pruned.map(snapshotKey), ...orphaned])
+}
+
+// Delete the chunks of records whose write was refused, unless the stored
+// document or a retained version refers to them
+async function discardChunks(key: string, records: JSONData[]): Promise<void> {
+  const written = chunkKeys(key, records)
+  if (written.length === 0) return
+  
+  const snapshots = (await db.listVersions(key)).map(({ version }) => `${VERSION_SNAPSHOT_PREFIX}${key}:${version}`)
+  const kept = new Set(chunkKeys(key, await storage.mget<JSONData>([key, ...snapshots])))
+  const orphaned = written.filter(chunkKey => !kept.has(chunkKey))
+  
+  if (orphaned.length > 0) {
+    await storage.mdel(orphaned)
   }
 }
 
@@ -0,0 +1,93 @@
+// lib/documents.ts - Document reads shared by the data route and cache warmup
+import { cache, CacheOptions } from './cache'
+import { db, JSONData } from './database'
+import { toStorageTags } from './namespace'
+import { CacheContext, DEFAULT_VARY, generateCacheKey, VaryPolicy } from './utils'
+
+// Seconds a cached document read is fresh
+export const DOCUMENT_CACHE_TTL = 30
+
+// Cache key of the variant of a document a request reads
+export function documentCacheKey(storageKey: string, vary: VaryPolicy, context: CacheContext): string {
+  return generateCacheKey(`data:${storageKey}`, vary, context)
+}
+
+// Variance policy of a document. It is cached under the document's index, so
+// a write that changes it drops the old policy together with its variants.
+export async function getVaryPolicy(storageKey: string): Promise<VaryPolicy> {
+  try {
+    const { data } = await cache.lookup(
+      `vary:${storageKey}`,
+      async () => (await db.get(storageKey))?.metadata?.vary || DEFAULT_VARY,
+      { ttl: DOCUMENT_CACHE_TTL, index: storageKey }
+    )
+    return data || DEFAULT_VARY
+  } catch (error) {
+    console.warn(`Vary policy lookup failed for ${storageKey}:`, error)
+    return DEFAULT_VARY
+  }
+}
+
+// Entries are indexed by document, tagged with the document's cache tags
+// and grouped by namespace
+export function documentCacheOptions(namespace: string, storageKey: string): CacheOptions {
+  return {
+    ttl: DOCUMENT_CACHE_TTL,
+    lock: true,
+    index: storageKey,
+    tags: (document: any) => toStorageTags(namespace, document?.metadata?.tags),
+    group: namespace
+  }
+}
+
+// A stored record as the read path serves it
+export function toDocument(record: JSONData, region: string, city: string) {
+  return {
+    ...record,
+    metadata: {
+      ...record.metadata,
+      cacheStatus: 'fresh',
+      region,
+      city,
+      servedFrom: 'database'
+    }
+  }
+}
+
+// Read a document for the cache; unknown keys get generated default data
+export async function fetchFreshData(key: string, region: string, city: string) {
+  // Try to get from database first
+  const dbData = await db.get(key)
+
+  if (dbData) {
+    return toDocument(dbData, region, city)
+  }
+
+  // Return default data if key doesn't exist
+  return {
+    id: key,
+    data: {
+      message: `Hello from ${city}, ${region}!`,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0',
+      region,
+      city,
+      servedFrom: 'default',
+      performance: {
+        responseTime: '1-50ms',
+        cache: 'miss'
+      }
+    },
+    timestamp: new Date().toISOString(),
+    version: 1,
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      cacheStatus: 'fresh',
+      size: 0,
+      format: 'json',
+      region,
+      city,
+      servedFrom: 'default'
+    }
+  }
+}
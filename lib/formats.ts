@@ -0,0 +1,713 @@
+// lib/formats.ts - Representations of stored documents (JSON, YAML, CSV, NDJSON, MessagePack) and parsing of uploads
+import { LineCounter, parseDocument, stringify, visit } from 'yaml'
+
+export type Representation = 'json' | 'raw' | 'yaml' | 'csv' | 'ndjson' | 'msgpack'
+
+export const CONTENT_TYPES: Record<Representation, string> = {
+  json: 'application/json; charset=utf-8',
+  raw: 'application/json; charset=utf-8',
+  yaml: 'application/yaml; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  msgpack: 'application/msgpack'
+}
+
+// Media types clients may ask for, including common aliases
+const MEDIA_TYPES: Record<string, Representation> = {
+  'application/json': 'json',
+  'application/yaml': 'yaml',
+  'application/x-yaml': 'yaml',
+  'text/yaml': 'yaml',
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/msgpack': 'msgpack',
+  'application/x-msgpack': 'msgpack',
+  'application/vnd.msgpack': 'msgpack'
+}
+
+export function isRepresentation(format: any): format is Representation {
+  return typeof format === 'string' && Object.prototype.hasOwnProperty.call(CONTENT_TYPES, format)
+}
+
+// Pick a representation from an Accept header by quality, then by the
+// client's order. JSON when the header is missing, allows anything, or
+// names no supported type.
+export function negotiateRepresentation(accept: string | null): Representation {
+  if (!accept || !accept.trim()) return 'json'
+
+  const ranges = accept
+    .split(',')
+    .map((part, order) => {
+      const [range, ...params] = part.split(';').map(piece => piece.trim().toLowerCase())
+      const q = params.find(param => param.startsWith('q='))
+      return { range, order, quality: q ? parseFloat(q.slice(2)) : 1 }
+    })
+    .filter(({ range, quality }) => range && !isNaN(quality) && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.order - b.order)
+
+  for (const { range } of ranges) {
+    if (range === '*/*' || range === 'application/*') return 'json'
+    if (MEDIA_TYPES[range]) return MEDIA_TYPES[range]
+  }
+
+  return 'json'
+}
+
+// Serialize a document's data; an error when the data has no representation
+// in the format (CSV needs an array of flat objects)
+export function serialize(
+  data: any,
+  format: Exclude<Representation, 'json' | 'raw'>
+): { body?: string | Uint8Array; error?: string } {
+  try {
+    switch (format) {
+      case 'yaml':
+        return { body: toYAML(data) }
+      case 'csv':
+        return { body: toCSV(data) }
+      case 'ndjson':
+        return { body: toNDJSON(data) }
+      case 'msgpack':
+        return { body: toMessagePack(data) }
+    }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Serialization failed' }
+  }
+}
+
+// YAML 1.2 block style, written by the yaml package. Shared objects are
+// repeated rather than aliased and long strings are not folded.
+export function toYAML(data: any): string {
+  return stringify(data, { version: '1.2', aliasDuplicateObjects: false, lineWidth: 0 })
+}
+
+// RFC 4180 CSV with a header row of every key, in order of first appearance
+export function toCSV(data: any): string {
+  if (!Array.isArray(data) || !data.every(isFlatObject)) {
+    throw new Error('CSV is only available for arrays of flat objects')
+  }
+
+  const columns: string[] = []
+  data.forEach(row => {
+    Object.keys(row).forEach(column => {
+      if (columns.indexOf(column) === -1) columns.push(column)
+    })
+  })
+
+  const lines = [
+    columns.map(csvField).join(','),
+    ...data.map(row => columns.map(column => csvField(row[column])).join(','))
+  ]
+
+  return `${lines.join('\r\n')}\r\n`
+}
+
+function isFlatObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.keys(value).every(key => value[key] === null || typeof value[key] !== 'object')
+}
+
+function csvField(value: any): string {
+  if (value === null || value === undefined) return ''
+
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// One JSON value per line: the items of an array, or the value itself
+export function toNDJSON(data: any): string {
+  const items = Array.isArray(data) ? data : [data]
+  return items.map(item => `${JSON.stringify(item ?? null)}\n`).join('')
+}
+
+export type StreamFormat = 'ndjson' | 'json'
+
+// Characters serialized before a chunk of a streamed response is sent
+const STREAM_CHUNK_SIZE = 64 * 1024
+
+// Serialize data while the client reads it: NDJSON lines as toNDJSON writes
+// them, or a JSON array matching JSON.stringify. For pages and selections,
+// which are decoded already; whole documents stream from storage through
+// streamNDJSON. Anything but an array is sent in one chunk.
+export function streamItems(data: any, format: StreamFormat): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+
+  if (!Array.isArray(data)) {
+    const text = format === 'ndjson' ? toNDJSON(data) : JSON.stringify(data ?? null)
+    return new Response(text).body!
+  }
+
+  let next = 0
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      let text = format === 'json' && next === 0 ? '[' : ''
+
+      while (next < data.length && text.length < STREAM_CHUNK_SIZE) {
+        const item = JSON.stringify(data[next] ?? null)
+        text += format === 'ndjson' ? `${item}\n` : `${next > 0 ? ',' : ''}${item}`
+        next++
+      }
+
+      if (next >= data.length) {
+        if (format === 'json') text += ']'
+        if (text) controller.enqueue(encoder.encode(text))
+        controller.close()
+        return
+      }
+
+      controller.enqueue(encoder.encode(text))
+    }
+  })
+}
+
+// NDJSON from the JSON text of some data as it arrives, as toNDJSON writes
+// it: a line per element of a top-level array, or one line for anything else.
+// The text must be compact, as JSON.stringify writes it, so each element's
+// text is already its line and only one element is held at a time.
+export function streamNDJSON(json: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  let array: boolean | null = null
+  let depth = 0
+  let inString = false
+  let escaped = false
+  // Text of the current element received in earlier chunks
+  let pending = ''
+
+  const lines = new TransformStream<string, string>({
+    transform(text, controller) {
+      if (array === null && text.length > 0) {
+        array = text[0] === '['
+        if (array) text = text.slice(1)
+      }
+      if (!array) {
+        controller.enqueue(text)
+        return
+      }
+
+      let out = ''
+      let start = 0
+
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+
+        if (inString) {
+          if (escaped) escaped = false
+          else if (char === '\\') escaped = true
+          else if (char === '"') inString = false
+        } else if (char === '"') {
+          inString = true
+        } else if (char === '[' || char === '{') {
+          depth++
+        } else if ((char === ']' || char === '}') && depth > 0) {
+          depth--
+        } else if (depth === 0 && (char === ',' || char === ']')) {
+          // An element ends at depth 0; "]" closes the array
+          const element = pending + text.slice(start, i)
+          if (element) out += `${element}\n`
+          pending = ''
+          start = i + 1
+        }
+      }
+
+      pending += text.slice(start)
+      if (out) controller.enqueue(out)
+    },
+
+    flush(controller) {
+      if (!array) controller.enqueue('\n')
+    }
+  })
+
+  return json
+    .pipeThrough(new TextDecoderStream() as TransformStream<Uint8Array, string>)
+    .pipeThrough(lines)
+    .pipeThrough(new TextEncoderStream())
+}
+
+// MessagePack, using the smallest encoding for each value
+export function toMessagePack(data: any): Uint8Array {
+  const writer = new ByteWriter()
+  encodeMessagePack(data, writer)
+  return writer.bytes()
+}
+
+function encodeMessagePack(value: any, out: ByteWriter): void {
+  if (value === null || value === undefined) {
+    out.byte(0xc0)
+  } else if (value === false) {
+    out.byte(0xc2)
+  } else if (value === true) {
+    out.byte(0xc3)
+  } else if (typeof value === 'number') {
+    encodeNumber(value, out)
+  } else if (typeof value === 'string') {
+    const utf8 = new TextEncoder().encode(value)
+    out.header(utf8.length, 0xa0, 31, 0xd9, 0xda, 0xdb)
+    out.append(utf8)
+  } else if (Array.isArray(value)) {
+    out.header(value.length, 0x90, 15, null, 0xdc, 0xdd)
+    value.forEach(item => encodeMessagePack(item, out))
+  } else if (typeof value === 'object') {
+    const keys = Object.keys(value).filter(key => value[key] !== undefined)
+    out.header(keys.length, 0x80, 15, null, 0xde, 0xdf)
+    keys.forEach(key => {
+      encodeMessagePack(key, out)
+      encodeMessagePack(value[key], out)
+    })
+  } else {
+    out.byte(0xc0)
+  }
+}
+
+function encodeNumber(value: number, out: ByteWriter): void {
+  // Fixints are the value itself: 0..127, and -32..-1 as a negative byte
+  if (Number.isInteger(value) && value >= -32 && value < 0x80) {
+    out.byte(value & 0xff)
+  } else if (Number.isInteger(value) && value >= 0 && value <= 0xffffffff) {
+    const [code, size] = value <= 0xff ? [0xcc, 1] : value <= 0xffff ? [0xcd, 2] : [0xce, 4]
+    out.byte(code)
+    out.view(size, view => writeInt(view, value, size, false))
+  } else if (Number.isInteger(value) && value < 0 && value >= -0x80000000) {
+    const [code, size] = value >= -0x80 ? [0xd0, 1] : value >= -0x8000 ? [0xd1, 2] : [0xd2, 4]
+    out.byte(code)
+    out.view(size, view => writeInt(view, value, size, true))
+  } else {
+    out.byte(0xcb)
+    out.view(8, view => view.setFloat64(0, value))
+  }
+}
+
+function writeInt(view: DataView, value: number, size: number, signed: boolean): void {
+  if (size === 1) {
+    signed ? view.setInt8(0, value) : view.setUint8(0, value)
+  } else if (size === 2) {
+    signed ? view.setInt16(0, value) : view.setUint16(0, value)
+  } else {
+    signed ? view.setInt32(0, value) : view.setUint32(0, value)
+  }
+}
+
+// Growable byte buffer
+class ByteWriter {
+  private buffer = new Uint8Array(256)
+  private length = 0
+
+  byte(value: number): void {
+    this.reserve(1)
+    this.buffer[this.length++] = value
+  }
+
+  append(bytes: Uint8Array): void {
+    this.reserve(bytes.length)
+    this.buffer.set(bytes, this.length)
+    this.length += bytes.length
+  }
+
+  // Write `size` big-endian bytes through a DataView
+  view(size: number, write: (view: DataView) => void): void {
+    this.reserve(size)
+    write(new DataView(this.buffer.buffer, this.length, size))
+    this.length += size
+  }
+
+  // Length prefix of a str, array or map: the fix form, then 8, 16 or 32 bits
+  header(length: number, fix: number, fixMax: number, code8: number | null, code16: number, code32: number): void {
+    if (length <= fixMax) {
+      this.byte(fix | length)
+    } else if (code8 !== null && length <= 0xff) {
+      this.byte(code8)
+      this.byte(length)
+    } else if (length <= 0xffff) {
+      this.byte(code16)
+      this.view(2, view => view.setUint16(0, length))
+    } else {
+      this.byte(code32)
+      this.view(4, view => view.setUint32(0, length))
+    }
+  }
+
+  bytes(): Uint8Array {
+    return this.buffer.slice(0, this.length)
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return
+
+    let capacity = this.buffer.length * 2
+    while (capacity < this.length + size) capacity *= 2
+
+    const grown = new Uint8Array(capacity)
+    grown.set(this.buffer.subarray(0, this.length))
+    this.buffer = grown
+  }
+}
+
+// Formats uploads may arrive in; each parses to JSON
+export type SourceFormat = 'json' | 'yaml' | 'csv' | 'ndjson'
+
+// Where parsing stopped, counted from 1
+export type ParseError = {
+  message: string
+  line: number
+  column: number
+}
+
+const SOURCE_MEDIA_TYPES: Record<string, SourceFormat> = {
+  'application/json': 'json',
+  'text/json': 'json',
+  'application/yaml': 'yaml',
+  'application/x-yaml': 'yaml',
+  'text/yaml': 'yaml',
+  'text/x-yaml': 'yaml',
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+  'application/x-jsonlines': 'ndjson'
+}
+
+const SOURCE_EXTENSIONS: Record<string, SourceFormat> = {
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yaml',
+  csv: 'csv',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson'
+}
+
+// Format of an uploaded file from its media type, or its extension when the
+// type is generic (browsers send text/plain or nothing for YAML and NDJSON);
+// null when it is none we parse
+export function detectSourceFormat(filename: string, mediaType: string): SourceFormat | null {
+  const type = mediaType.split(';')[0].trim().toLowerCase()
+  if (SOURCE_MEDIA_TYPES[type]) return SOURCE_MEDIA_TYPES[type]
+
+  const dot = filename.lastIndexOf('.')
+  const extension = dot === -1 ? '' : filename.slice(dot + 1).toLowerCase()
+  if (SOURCE_EXTENSIONS[extension]) return SOURCE_EXTENSIONS[extension]
+
+  // Other JSON media types, e.g. application/ld+json
+  return /[/+]json$/.test(type) ? 'json' : null
+}
+
+// Parse uploaded text into JSON data
+export function parseSource(text: string, format: SourceFormat): { data?: any; error?: ParseError } {
+  const source = text.replace(/^\uFEFF/, '')
+
+  try {
+    switch (format) {
+      case 'json':
+        return { data: parseJSONText(source, 1) }
+      case 'yaml':
+        return { data: parseYAML(source) }
+      case 'csv':
+        return { data: parseCSV(source) }
+      case 'ndjson':
+        return { data: parseNDJSON(source) }
+    }
+  } catch (error) {
+    const { line, column } = error as Partial<ParseError>
+    return {
+      error: {
+        message: error instanceof Error ? error.message : 'Parse failed',
+        line: line || 1,
+        column: column || 1
+      }
+    }
+  }
+}
+
+// "line 3, column 7: Duplicate key "id"", for error responses
+export function describeParseError(error: ParseError): string {
+  return `line ${error.line}, column ${error.column}: ${error.message}`
+}
+
+function fail(message: string, line: number, column: number): never {
+  throw Object.assign(new Error(message), { line, column })
+}
+
+// JSON.parse, with its error position turned into a line and column. `line`
+// is where the text starts in the file.
+function parseJSONText(text: string, line: number, column: number = 1): any {
+  try {
+    return JSON.parse(text)
+  } catch (error) {
+    const { offset, message } = findJSONError(text) ||
+      { offset: 0, message: error instanceof Error ? error.message : 'Invalid JSON' }
+    const before = text.slice(0, offset).split('\n')
+
+    return fail(message, line + before.length - 1, (before.length === 1 ? column : 1) + before[before.length - 1].length)
+  }
+}
+
+// Offset and reason of the first syntax error in JSON text, or null if it
+// has none. JSON.parse does not report positions consistently across runtimes.
+function findJSONError(text: string): { offset: number; message: string } | null {
+  let i = 0
+
+  const error = (message: string, offset: number = i) => {
+    throw { offset, message }
+  }
+  const describe = () => i < text.length ? `Unexpected "${text[i]}"` : 'Unexpected end of input'
+  const whitespace = () => {
+    while (/[ \t\r\n]/.test(text[i] || '')) i++
+  }
+  const digits = () => {
+    const start = i
+    while (/[0-9]/.test(text[i] || '')) i++
+    if (i === start) error(`${describe()} in a number`)
+  }
+
+  const string = () => {
+    const start = i++
+    while (text[i] !== '"') {
+      if (i >= text.length) error('Unterminated string', start)
+      if (text.charCodeAt(i) < 0x20) error('Control characters must be escaped in strings')
+      if (text[i] === '\\') {
+        i++
+        if (text[i] === 'u') {
+          if (!/^[0-9a-fA-F]{4}$/.test(text.slice(i + 1, i + 5))) error('Invalid unicode escape', i - 1)
+          i += 4
+        } else if ('"\\/bfnrt'.indexOf(text[i] || 'x') === -1) {
+          error('Invalid escape', i - 1)
+        }
+      }
+      i++
+    }
+    i++
+  }
+
+  const value = (): void => {
+    whitespace()
+    const char = text[i]
+
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']'
+      i++
+      whitespace()
+      if (text[i] === close) {
+        i++
+        return
+      }
+
+      while (true) {
+        if (char === '{') {
+          whitespace()
+          if (text[i] !== '"') error(`${describe()}; expected a property name`)
+          string()
+          whitespace()
+          if (text[i] !== ':') error(`${describe()}; expected ":"`)
+          i++
+        }
+
+        value()
+        whitespace()
+        if (text[i] === close) {
+          i++
+          return
+        }
+        if (text[i] !== ',') error(`${describe()}; expected "," or "${close}"`)
+        i++
+      }
+    }
+
+    if (char === '"') return string()
+
+    if (char === '-' || /[0-9]/.test(char || '')) {
+      if (char === '-') i++
+      if (text[i] === '0') i++
+      else digits()
+      if (text[i] === '.') {
+        i++
+        digits()
+      }
+      if (text[i] === 'e' || text[i] === 'E') {
+        i++
+        if (text[i] === '+' || text[i] === '-') i++
+        digits()
+      }
+      return
+    }
+
+    const literal = ['true', 'false', 'null'].find(word => text.startsWith(word, i))
+    if (!literal) error(describe())
+    i += literal!.length
+  }
+
+  try {
+    value()
+    whitespace()
+    if (i < text.length) error(`${describe()} after the value`)
+    return null
+  } catch (thrown) {
+    return thrown as { offset: number; message: string }
+  }
+}
+
+// One JSON value per non-blank line, as an array
+function parseNDJSON(text: string): any[] {
+  const items: any[] = []
+
+  text.split('\n').forEach((source, index) => {
+    const value = source.replace(/\r$/, '')
+    if (!value.trim()) return
+
+    const indent = value.length - value.replace(/^\s+/, '').length
+    items.push(parseJSONText(value.trim(), index + 1, indent + 1))
+  })
+
+  if (items.length === 0) fail('File has no records', 1, 1)
+  return items
+}
+
+type CSVField = { value: string; quoted: boolean; column: number }
+type CSVRow = { fields: CSVField[]; line: number }
+
+// RFC 4180 CSV to an array of objects keyed by the header row. Unquoted
+// fields are typed: numbers, true/false, and empty fields as null; quoted
+// fields stay strings.
+function parseCSV(text: string): Record<string, any>[] {
+  const [header, ...rows] = readCSVRows(text)
+  if (!header) fail('File has no header row', 1, 1)
+
+  const columns: string[] = []
+  header.fields.forEach((field, i) => {
+    const name = field.value.trim()
+    if (!name) fail(`Column ${i + 1} has no name`, header.line, field.column)
+    if (columns.indexOf(name) !== -1) fail(`Duplicate column "${name}"`, header.line, field.column)
+    columns.push(name)
+  })
+
+  return rows.map(row => {
+    if (row.fields.length !== columns.length) {
+      // The first extra field, or the last one of a short row
+      const field = row.fields[Math.min(row.fields.length - 1, columns.length)]
+      fail(`Expected ${columns.length} fields, found ${row.fields.length}`, row.line, field.column)
+    }
+
+    const record: Record<string, any> = {}
+    columns.forEach((column, i) => setEntry(record, column, coerceCSVField(row.fields[i])))
+    return record
+  })
+}
+
+// Split CSV text into rows of fields, skipping blank lines
+function readCSVRows(text: string): CSVRow[] {
+  const rows: CSVRow[] = []
+  let row: CSVRow = { fields: [], line: 1 }
+  let line = 1
+  let column = 1
+  let i = 0
+
+  while (true) {
+    const start = column
+    const quoted = text[i] === '"'
+    let value = ''
+
+    if (quoted) {
+      const openLine = line
+      i++
+      column++
+
+      while (true) {
+        if (i >= text.length) fail('Unterminated quoted field', openLine, start)
+
+        const char = text[i]
+        if (char === '"' && text[i + 1] === '"') {
+          value += '"'
+          i += 2
+          column += 2
+          continue
+        }
+
+        i++
+        column++
+        if (char === '"') break
+
+        value += char
+        if (char === '\n') {
+          line++
+          column = 1
+        }
+      }
+
+      if (i < text.length && !/[,\r\n]/.test(text[i])) {
+        fail('Unexpected character after a closing quote', line, column)
+      }
+    } else {
+      while (i < text.length && !/[,\r\n]/.test(text[i])) {
+        if (text[i] === '"') fail('Quote inside an unquoted field; quote the whole field', line, column)
+        value += text[i++]
+        column++
+      }
+    }
+
+    row.fields.push({ value, quoted, column: start })
+
+    if (text[i] === ',') {
+      i++
+      column++
+      continue
+    }
+
+    // End of the row
+    if (row.fields.length > 1 || quoted || value !== '') rows.push(row)
+    if (text[i] === '\r') i++
+    if (text[i] === '\n') i++
+    if (i >= text.length) return rows
+
+    line++
+    column = 1
+    row = { fields: [], line }
+  }
+}
+
+const CSV_NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][-+]?\d+)?$/
+
+function coerceCSVField(field: CSVField): any {
+  if (field.quoted) return field.value
+
+  const value = field.value.trim()
+  if (value === '') return null
+  if (/^true$/i.test(value)) return true
+  if (/^false$/i.test(value)) return false
+
+  // Integers too large to keep exactly stay strings, e.g. long IDs
+  if (CSV_NUMBER.test(value) && (/[.eE]/.test(value) || Number.isSafeInteger(Number(value)))) {
+    return Number(value)
+  }
+
+  return field.value
+}
+
+// Define a key outright, so names like "__proto__" are kept as data
+function setEntry(target: Record<string, any>, key: string, value: any): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true })
+}
+
+// YAML 1.2 with the core schema, read by the yaml package. Rejected: more
+// than one document, tags it can't resolve, values JSON has no form for
+// (.inf, .nan) and aliases expanding to over 100 nodes.
+function parseYAML(text: string): any {
+  const lineCounter = new LineCounter()
+  const document = parseDocument(text, { version: '1.2', schema: 'core', prettyErrors: false, lineCounter })
+
+  const problem = document.errors[0] || document.warnings[0]
+  if (problem) {
+    const { line, col } = lineCounter.linePos(problem.pos[0])
+    fail(problem.code === 'MULTIPLE_DOCS' ? 'Multiple documents are not supported' : problem.message, line, col)
+  }
+
+  visit(document, {
+    Scalar(key, node) {
+      if (typeof node.value === 'number' && !Number.isFinite(node.value)) {
+        const { line, col } = lineCounter.linePos(node.range?.[0] || 0)
+        fail(`${node.source ?? node.value} has no JSON representation`, line, col)
+      }
+    }
+  })
+
+  return document.toJS({ maxAliasCount: 100 }) ?? null
+}
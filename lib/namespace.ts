@@ -0,0 +1,232 @@
+// lib/namespace.ts - Namespaces: key isolation and per-namespace quotas
+import { NextRequest, NextResponse } from 'next/server'
+import { db, DEFAULT_NAMESPACE, isReservedKey, NAMESPACE_PREFIX, namespaceKeySet, storage } from './database'
+import { createAPIResponse, formatBytes } from './utils'
+
+export { DEFAULT_NAMESPACE }
+
+// Limits per namespace; 0 means unlimited
+export type NamespaceQuota = {
+  maxKeys: number
+  maxBytes: number
+}
+
+export type NamespaceUsage = {
+  keys: number
+  bytes: number
+}
+
+export type NamespaceResult = {
+  name: string
+  // Set when only the API key picked the namespace, so neither the URL nor
+  // the X-Namespace header tells a shared cache about it
+  bound?: boolean
+  status?: 400 | 403
+  error?: string
+}
+
+// Tracks usage across the writes of one request
+export type QuotaTracker = {
+  check(storageKey: string, size: number): string | null
+}
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/
+const QUOTA_PREFIX = 'namespaces:quota:'
+// Marks a namespace whose key set has been started from a scan
+const INDEXED_PREFIX = 'namespaces:indexed:'
+
+// Defaults for namespaces without their own quota (NAMESPACE_MAX_KEYS, NAMESPACE_MAX_BYTES)
+const DEFAULT_QUOTA: NamespaceQuota = {
+  maxKeys: Math.max(0, parseInt(process.env.NAMESPACE_MAX_KEYS || '0') || 0),
+  maxBytes: Math.max(0, parseInt(process.env.NAMESPACE_MAX_BYTES || '0') || 0)
+}
+
+export function isValidNamespace(name: any): boolean {
+  return typeof name === 'string' && NAME_PATTERN.test(name)
+}
+
+// Pick the namespace of a request: the /api/ns/<namespace>/... path (rewritten
+// to ?namespace=), then the X-Namespace header, then the API key's namespace.
+// Keys bound to a namespace cannot reach into another one.
+export function resolveNamespace(request: NextRequest, boundTo?: string): NamespaceResult {
+  const requested = request.nextUrl.searchParams.get('namespace') || request.headers.get('x-namespace')
+
+  if (requested && !isValidNamespace(requested)) {
+    return {
+      name: DEFAULT_NAMESPACE,
+      status: 400,
+      error: `Invalid namespace "${requested}". Use lowercase letters, digits, "-" and "_" (max 63 characters)`
+    }
+  }
+
+  if (boundTo && requested && requested !== boundTo) {
+    return {
+      name: boundTo,
+      status: 403,
+      error: `API key is limited to namespace "${boundTo}"`
+    }
+  }
+
+  return { name: requested || boundTo || DEFAULT_NAMESPACE, ...(!requested && boundTo && { bound: true }) }
+}
+
+export function namespaceError(result: NamespaceResult) {
+  return NextResponse.json(
+    createAPIResponse(null, { error: result.status === 400 ? 'Invalid namespace' : 'Forbidden', message: result.error }),
+    { status: result.status || 400 }
+  )
+}
+
+// Key a document is stored under. The default namespace is the unprefixed
+// keyspace, so data written before namespaces existed stays where it was.
+export function toStorageKey(namespace: string, key: string): string {
+  return namespace === DEFAULT_NAMESPACE ? key : `${NAMESPACE_PREFIX}${namespace}:${key}`
+}
+
+// Inverse of toStorageKey
+export function fromStorageKey(namespace: string, storageKey: string): string {
+  return namespace === DEFAULT_NAMESPACE ? storageKey : storageKey.slice(`${NAMESPACE_PREFIX}${namespace}:`.length)
+}
+
+// Cache tags are namespaced like keys, so tenants cannot invalidate each other's
+export function toStorageTags(namespace: string, tags: string[] = []): string[] {
+  return tags.map(tag => toStorageKey(namespace, tag))
+}
+
+// Whether a storage key belongs to a namespace
+export function inNamespace(namespace: string, storageKey: string): boolean {
+  return namespace === DEFAULT_NAMESPACE
+    ? !storageKey.startsWith(NAMESPACE_PREFIX)
+    : storageKey.startsWith(`${NAMESPACE_PREFIX}${namespace}:`)
+}
+
+// Storage keys in a namespace's key set: its documents, and documents gone
+// since that readSizes has yet to drop. Keys stored before the set existed are
+// found by scanning, once per namespace.
+export async function listNamespaceKeys(namespace: string): Promise<string[]> {
+  const keys = await db.getSet(namespaceKeySet(namespace))
+  if (keys.length > 0 || (await db.exists(`${INDEXED_PREFIX}${namespace}`))) return keys
+
+  const scanned = namespace === DEFAULT_NAMESPACE
+    ? (await db.list('*')).filter(key => !isReservedKey(key))
+    : await db.list(`${NAMESPACE_PREFIX}${namespace}:*`)
+
+  await db.addToSet(namespaceKeySet(namespace), scanned)
+  await db.set(`${INDEXED_PREFIX}${namespace}`, true)
+  return Array.from(new Set([...keys, ...scanned]))
+}
+
+// Namespaces that currently hold documents or have a quota
+export async function listNamespaces(): Promise<string[]> {
+  const names = new Set<string>([DEFAULT_NAMESPACE])
+  const documentKeys = await db.list(`${NAMESPACE_PREFIX}*`)
+  const quotaKeys = await db.list(`${QUOTA_PREFIX}*`)
+
+  documentKeys.forEach(key => {
+    names.add(key.slice(NAMESPACE_PREFIX.length, key.indexOf(':', NAMESPACE_PREFIX.length)))
+  })
+  quotaKeys.forEach(key => names.add(key.slice(QUOTA_PREFIX.length)))
+
+  return Array.from(names).sort()
+}
+
+export async function getNamespaceQuota(namespace: string): Promise<NamespaceQuota> {
+  const record = await db.get(`${QUOTA_PREFIX}${namespace}`)
+  return { ...DEFAULT_QUOTA, ...(record?.data || {}) }
+}
+
+export async function setNamespaceQuota(namespace: string, quota: Partial<NamespaceQuota>): Promise<NamespaceQuota> {
+  const current = await getNamespaceQuota(namespace)
+  const updated = { ...current, ...quota }
+
+  await db.set(`${QUOTA_PREFIX}${namespace}`, updated)
+  return updated
+}
+
+export async function getNamespaceUsage(namespace: string): Promise<NamespaceUsage> {
+  const sizes = await readSizes(namespace)
+  return { keys: sizes.size, bytes: totalSize(sizes) }
+}
+
+// Load usage once per request; each accepted check() counts towards it, so a
+// bulk write cannot slip past the quota one item at a time
+export async function loadQuota(namespace: string): Promise<QuotaTracker> {
+  const quota = await getNamespaceQuota(namespace)
+
+  if (!quota.maxKeys && !quota.maxBytes) {
+    return { check: () => null }
+  }
+
+  const sizes = await readSizes(namespace)
+  let bytes = totalSize(sizes)
+
+  return {
+    check(storageKey: string, size: number) {
+      const existing = sizes.get(storageKey)
+
+      if (existing === undefined && quota.maxKeys && sizes.size >= quota.maxKeys) {
+        return `Namespace "${namespace}" is limited to ${quota.maxKeys} keys`
+      }
+
+      const nextBytes = bytes - (existing || 0) + size
+      if (quota.maxBytes && nextBytes > quota.maxBytes) {
+        return `Namespace "${namespace}" is limited to ${formatBytes(quota.maxBytes)}, this write would use ${formatBytes(nextBytes)}`
+      }
+
+      sizes.set(storageKey, size)
+      bytes = nextBytes
+      return null
+    }
+  }
+}
+
+export function quotaExceeded(message: string) {
+  return NextResponse.json(
+    createAPIResponse(null, { error: 'Quota exceeded', message }),
+    { status: 507 }
+  )
+}
+
+// Current size of every live document, from the version indexes rather than
+// the documents. Keys of documents that expired or were deleted are dropped
+// from the key set, unless one was written again in the meantime.
+async function readSizes(namespace: string): Promise<Map<string, number>> {
+  const keys = await listNamespaceKeys(namespace)
+  const histories = await db.mgetVersions(keys)
+  const sizes = new Map<string, number>()
+  const gone: string[] = []
+  const now = Date.now()
+
+  for (let i = 0; i < keys.length; i++) {
+    const latest = histories[i][histories[i].length - 1]
+    // Documents stored before versions were kept have no history
+    const live = latest
+      ? !latest.deleted && !(latest.expires && Date.parse(latest.expires) <= now)
+      : await db.exists(keys[i])
+
+    if (live) {
+      sizes.set(keys[i], latest ? latest.size : 0)
+    } else {
+      gone.push(keys[i])
+    }
+  }
+
+  if (gone.length > 0) {
+    await storage.commitIf(
+      gone.map(key => ({ key, version: 0 })),
+      [],
+      [],
+      gone.map(key => ({ key: namespaceKeySet(namespace), member: key, remove: true }))
+    )
+  }
+
+  return sizes
+}
+
+function totalSize(sizes: Map<string, number>): number {
+  let total = 0
+  sizes.forEach(size => {
+    total += size
+  })
+  return total
+}
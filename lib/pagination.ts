@@ -0,0 +1,99 @@
+// lib/pagination.ts - Pages of top-level arrays: ?offset=&limit= or cursor tokens
+export type PageRequest = {
+  offset: number
+  limit: number
+  // Version a cursor was issued for; later pages are read from that version
+  version?: number
+}
+
+export type PageInfo = {
+  offset: number
+  limit: number
+  total: number
+  returned: number
+  // Token for the following page, absent on the last one
+  nextCursor?: string
+}
+
+export const DEFAULT_PAGE_LIMIT = 100
+export const MAX_PAGE_LIMIT = 1000
+
+// Read pagination parameters (?offset=, ?limit=, ?cursor=) from a request;
+// null when none are given
+export function parsePagination(params: URLSearchParams): { page: PageRequest | null; error?: string } {
+  const offset = params.get('offset')
+  const limit = params.get('limit')
+  const cursor = params.get('cursor')
+
+  if (offset === null && limit === null && cursor === null) {
+    return { page: null }
+  }
+
+  if (cursor !== null && offset !== null) {
+    return { page: null, error: 'Use either "cursor" or "offset", not both' }
+  }
+
+  if (offset !== null && !/^\d+$/.test(offset)) {
+    return { page: null, error: '"offset" must be a non-negative integer' }
+  }
+
+  if (limit !== null && (!/^\d+$/.test(limit) || Number(limit) < 1 || Number(limit) > MAX_PAGE_LIMIT)) {
+    return { page: null, error: `"limit" must be an integer from 1 to ${MAX_PAGE_LIMIT}` }
+  }
+
+  // A limit given with a cursor changes the page size from there on
+  if (cursor !== null) {
+    const decoded = decodeCursor(cursor)
+    if (!decoded) {
+      return { page: null, error: 'Invalid cursor' }
+    }
+    return { page: limit !== null ? { ...decoded, limit: Number(limit) } : decoded }
+  }
+
+  return {
+    page: {
+      offset: offset !== null ? Number(offset) : 0,
+      limit: limit !== null ? Number(limit) : DEFAULT_PAGE_LIMIT
+    }
+  }
+}
+
+// Slice one page from an array; the next cursor carries the version the
+// page was read from
+export function paginate(items: any[], page: PageRequest, version: number): { items: any[]; page: PageInfo } {
+  const slice = items.slice(page.offset, page.offset + page.limit)
+  const next = page.offset + slice.length
+
+  return {
+    items: slice,
+    page: {
+      offset: page.offset,
+      limit: page.limit,
+      total: items.length,
+      returned: slice.length,
+      ...(next < items.length && { nextCursor: encodeCursor({ offset: next, limit: page.limit, version }) })
+    }
+  }
+}
+
+// Cursors are opaque to clients: base64url of "<version>.<offset>.<limit>"
+export function encodeCursor(page: Required<PageRequest>): string {
+  return btoa(`${page.version}.${page.offset}.${page.limit}`)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+function decodeCursor(cursor: string): Required<PageRequest> | null {
+  let text: string
+  try {
+    text = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))
+  } catch {
+    return null
+  }
+
+  const match = /^([1-9]\d*)\.(\d+)\.([1-9]\d*)$/.exec(text)
+  if (!match || Number(match[3]) > MAX_PAGE_LIMIT) return null
+
+  return { version: Number(match[1]), offset: Number(match[2]), limit: Number(match[3]) }
+}
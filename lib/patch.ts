@@ -0,0 +1,232 @@
+// lib/patch.ts - JSON Pointer (RFC 6901), JSON Patch (RFC 6902) and JSON Merge Patch (RFC 7396)
+import { deepEqual } from './utils'
+
+export type PatchOperation = {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test'
+  path: string
+  value?: any
+  from?: string
+}
+
+export type PatchResult = {
+  valid: boolean
+  data?: any
+  error?: string
+}
+
+// Split a JSON Pointer into unescaped reference tokens
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return []
+
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}": must be empty or start with "/"`)
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+// Resolve a JSON Pointer against a document; `found` is false if any step is missing
+export function resolvePointer(doc: any, pointer: string): { found: boolean; value?: any } {
+  let current = doc
+
+  for (const token of parsePointer(pointer)) {
+    if (Array.isArray(current)) {
+      if (!isArrayIndex(token) || Number(token) >= current.length) {
+        return { found: false }
+      }
+      current = current[Number(token)]
+    } else if (isObject(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = current[token]
+    } else {
+      return { found: false }
+    }
+  }
+
+  return { found: true, value: current }
+}
+
+// Apply an RFC 6902 patch. Operations run against a copy, so a failing
+// operation leaves the original untouched.
+export function applyJSONPatch(doc: any, operations: PatchOperation[]): PatchResult {
+  if (!Array.isArray(operations)) {
+    return { valid: false, error: 'JSON Patch must be an array of operations' }
+  }
+
+  let result = clone(doc)
+
+  for (let i = 0; i < operations.length; i++) {
+    const operation = operations[i]
+
+    try {
+      result = applyOperation(result, operation)
+    } catch (error) {
+      return {
+        valid: false,
+        error: `Operation ${i} (${operation?.op} ${operation?.path}): ${error instanceof Error ? error.message : 'failed'}`
+      }
+    }
+  }
+
+  return { valid: true, data: result }
+}
+
+// Apply an RFC 7396 merge patch: objects merge recursively, null removes a member
+export function applyMergePatch(target: any, patch: any): any {
+  if (!isObject(patch)) {
+    return clone(patch)
+  }
+
+  const result: Record<string, any> = isObject(target) ? { ...target } : {}
+
+  Object.keys(patch).forEach(name => {
+    if (patch[name] === null) {
+      delete result[name]
+    } else {
+      const current = Object.prototype.hasOwnProperty.call(result, name) ? result[name] : undefined
+      setMember(result, name, applyMergePatch(current, patch[name]))
+    }
+  })
+
+  return result
+}
+
+function applyOperation(doc: any, operation: PatchOperation): any {
+  if (!operation || typeof operation.path !== 'string') {
+    throw new Error('"path" is required')
+  }
+
+  switch (operation.op) {
+    case 'add':
+      requireValue(operation)
+      return addValue(doc, operation.path, clone(operation.value))
+
+    case 'remove':
+      return removeValue(doc, operation.path)
+
+    case 'replace':
+      requireValue(operation)
+      return addValue(removeValue(doc, operation.path), operation.path, clone(operation.value))
+
+    case 'move': {
+      const from = requireFrom(operation)
+      if (operation.path !== from && operation.path.startsWith(`${from}/`)) {
+        throw new Error('cannot move a value into one of its own children')
+      }
+      const { value } = getExisting(doc, from)
+      return addValue(removeValue(doc, from), operation.path, value)
+    }
+
+    case 'copy': {
+      const { value } = getExisting(doc, requireFrom(operation))
+      return addValue(doc, operation.path, clone(value))
+    }
+
+    case 'test': {
+      requireValue(operation)
+      const { value } = getExisting(doc, operation.path)
+      if (!deepEqual(value, operation.value)) {
+        throw new Error('test failed, value does not match')
+      }
+      return doc
+    }
+
+    default:
+      throw new Error(`unknown op "${(operation as any).op}"`)
+  }
+}
+
+function addValue(doc: any, path: string, value: any): any {
+  const tokens = parsePointer(path)
+  if (tokens.length === 0) return value
+
+  const parent = getParent(doc, tokens)
+  const token = tokens[tokens.length - 1]
+
+  if (Array.isArray(parent)) {
+    if (token === '-') {
+      parent.push(value)
+    } else if (isArrayIndex(token) && Number(token) <= parent.length) {
+      parent.splice(Number(token), 0, value)
+    } else {
+      throw new Error(`array index "${token}" out of bounds`)
+    }
+  } else {
+    setMember(parent, token, value)
+  }
+
+  return doc
+}
+
+function removeValue(doc: any, path: string): any {
+  const tokens = parsePointer(path)
+  getExisting(doc, path)
+  if (tokens.length === 0) return null
+
+  const parent = getParent(doc, tokens)
+  const token = tokens[tokens.length - 1]
+
+  if (Array.isArray(parent)) {
+    parent.splice(Number(token), 1)
+  } else {
+    delete parent[token]
+  }
+
+  return doc
+}
+
+function getParent(doc: any, tokens: string[]): any {
+  const parentPointer = tokens.slice(0, -1).map(escapeToken).join('/')
+  const parent = resolvePointer(doc, parentPointer ? `/${parentPointer}` : '')
+
+  if (!parent.found || (!Array.isArray(parent.value) && !isObject(parent.value))) {
+    throw new Error('parent path does not exist')
+  }
+
+  return parent.value
+}
+
+function getExisting(doc: any, path: string): { value: any } {
+  const resolved = resolvePointer(doc, path)
+  if (!resolved.found) {
+    throw new Error(`path "${path}" does not exist`)
+  }
+  return { value: resolved.value }
+}
+
+function requireValue(operation: PatchOperation) {
+  if (!('value' in operation)) {
+    throw new Error('"value" is required')
+  }
+}
+
+function requireFrom(operation: PatchOperation): string {
+  if (typeof operation.from !== 'string') {
+    throw new Error('"from" is required')
+  }
+  return operation.from
+}
+
+// Define a member outright, so names like "__proto__" are kept as data
+// instead of going through the prototype setter
+function setMember(target: Record<string, any>, name: string, value: any): void {
+  Object.defineProperty(target, name, { value, enumerable: true, writable: true, configurable: true })
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function isArrayIndex(token: string): boolean {
+  return /^(0|[1-9]\d*)$/.test(token)
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
@@ -0,0 +1,492 @@
+// lib/query.ts - Sub-document selection: JSON Pointer, JSONPath and field projection
+import { resolvePointer, parsePointer } from './patch'
+
+export type Selector = {
+  pointer?: string
+  query?: string
+  fields?: string[]
+}
+
+export type SelectionResult = {
+  found: boolean
+  value?: any
+}
+
+// JSONPath AST
+type PathSegment = { descendant: boolean; selectors: PathSelector[] }
+
+type PathSelector =
+  | { kind: 'name'; name: string }
+  | { kind: 'wildcard' }
+  | { kind: 'index'; index: number }
+  | { kind: 'slice'; start?: number; end?: number; step?: number }
+  | { kind: 'filter'; expression: FilterExpression }
+
+type FilterExpression =
+  | { type: 'or' | 'and'; left: FilterExpression; right: FilterExpression }
+  | { type: 'not'; expression: FilterExpression }
+  | { type: 'compare'; operator: string; left: FilterExpression; right: FilterExpression }
+  | { type: 'path'; root: '@' | '$'; segments: PathSegment[] }
+  | { type: 'literal'; value: any }
+
+// Read selection parameters (?pointer=, ?query=, ?fields=) from a request
+export function parseSelector(params: URLSearchParams): { selector: Selector | null; error?: string } {
+  const pointer = params.get('pointer')
+  const query = params.get('query')
+  const fields = params.get('fields')
+
+  if (pointer === null && query === null && fields === null) {
+    return { selector: null }
+  }
+
+  if (pointer !== null && query !== null) {
+    return { selector: null, error: 'Use either "pointer" or "query", not both' }
+  }
+
+  try {
+    if (pointer !== null) parsePointer(pointer)
+    if (query !== null) compileJSONPath(query)
+  } catch (error) {
+    return { selector: null, error: error instanceof Error ? error.message : 'Invalid selector' }
+  }
+
+  const fieldList = fields
+    ?.split(',')
+    .map(field => field.trim())
+    .filter(Boolean)
+
+  if (fields !== null && (!fieldList || fieldList.length === 0)) {
+    return { selector: null, error: '"fields" must list at least one field' }
+  }
+
+  return {
+    selector: {
+      ...(pointer !== null && { pointer }),
+      ...(query !== null && { query }),
+      ...(fieldList && { fields: fieldList })
+    }
+  }
+}
+
+// Stable string form of a selector, e.g. for cache keys
+export function describeSelector(selector: Selector): string {
+  return [
+    selector.pointer !== undefined ? `pointer=${selector.pointer}` : '',
+    selector.query !== undefined ? `query=${selector.query}` : '',
+    selector.fields ? `fields=${selector.fields.join(',')}` : ''
+  ].filter(Boolean).join('&')
+}
+
+// Apply a selector: pointer or JSONPath first, then field projection
+export function applySelector(data: any, selector: Selector): SelectionResult {
+  let value = data
+
+  if (selector.pointer !== undefined) {
+    const resolved = resolvePointer(data, selector.pointer)
+    if (!resolved.found) return { found: false }
+    value = resolved.value
+  } else if (selector.query !== undefined) {
+    value = evaluateJSONPath(data, selector.query)
+  }
+
+  if (selector.fields) {
+    value = projectFields(value, selector.fields)
+  }
+
+  return { found: true, value }
+}
+
+// Evaluate a JSONPath expression, returning every matching value
+export function evaluateJSONPath(data: any, path: string): any[] {
+  return evaluateSegments([data], compileJSONPath(path), data)
+}
+
+// Keep only the listed dot-separated fields; arrays are projected per element
+export function projectFields(value: any, fields: string[]): any {
+  return project(value, fields.map(field => field.split('.')))
+}
+
+function project(value: any, paths: string[][]): any {
+  if (Array.isArray(value)) {
+    return value.map(item => project(item, paths))
+  }
+
+  if (!isObject(value)) {
+    return value
+  }
+
+  const result: Record<string, any> = {}
+  const byHead = new Map<string, string[][]>()
+
+  paths.forEach(([head, ...rest]) => {
+    if (!byHead.has(head)) byHead.set(head, [])
+    byHead.get(head)!.push(rest)
+  })
+
+  byHead.forEach((rests, head) => {
+    if (!Object.prototype.hasOwnProperty.call(value, head)) return
+
+    // A bare field wins over any nested selection under it
+    result[head] = rests.some(rest => rest.length === 0)
+      ? value[head]
+      : project(value[head], rests)
+  })
+
+  return result
+}
+
+// JSONPath evaluation
+
+function evaluateSegments(nodes: any[], segments: PathSegment[], root: any): any[] {
+  return segments.reduce((current, segment) => {
+    const targets = segment.descendant ? current.flatMap(collectDescendants) : current
+    return targets.flatMap(node => applySelectors(node, segment.selectors, root))
+  }, nodes)
+}
+
+function collectDescendants(node: any): any[] {
+  const result = [node]
+  childrenOf(node).forEach(child => result.push(...collectDescendants(child)))
+  return result
+}
+
+function childrenOf(node: any): any[] {
+  if (Array.isArray(node)) return node
+  if (isObject(node)) return Object.keys(node).map(key => node[key])
+  return []
+}
+
+function applySelectors(node: any, selectors: PathSelector[], root: any): any[] {
+  return selectors.flatMap(selector => {
+    switch (selector.kind) {
+      case 'name':
+        return isObject(node) && Object.prototype.hasOwnProperty.call(node, selector.name)
+          ? [node[selector.name]]
+          : []
+
+      case 'wildcard':
+        return childrenOf(node)
+
+      case 'index': {
+        if (!Array.isArray(node)) return []
+        const index = selector.index < 0 ? node.length + selector.index : selector.index
+        return index >= 0 && index < node.length ? [node[index]] : []
+      }
+
+      case 'slice':
+        return Array.isArray(node) ? sliceArray(node, selector) : []
+
+      case 'filter':
+        return childrenOf(node).filter(child => isTruthy(evaluateFilter(selector.expression, child, root)))
+    }
+  })
+}
+
+function sliceArray(array: any[], { start, end, step = 1 }: { start?: number; end?: number; step?: number }): any[] {
+  if (step === 0) return []
+
+  const length = array.length
+  const normalize = (index: number) => (index < 0 ? Math.max(length + index, -1) : Math.min(index, length))
+  const result = []
+
+  if (step > 0) {
+    for (let i = Math.max(normalize(start ?? 0), 0); i < normalize(end ?? length); i += step) {
+      result.push(array[i])
+    }
+  } else {
+    for (let i = Math.min(normalize(start ?? length - 1), length - 1); i > normalize(end ?? -length - 1); i += step) {
+      result.push(array[i])
+    }
+  }
+
+  return result
+}
+
+// Filter results are either a node list (from paths) or a primitive literal
+function evaluateFilter(expression: FilterExpression, current: any, root: any): any {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value
+
+    case 'path':
+      return { nodes: evaluateSegments([expression.root === '@' ? current : root], expression.segments, root) }
+
+    case 'not':
+      return !isTruthy(evaluateFilter(expression.expression, current, root))
+
+    case 'and':
+      return isTruthy(evaluateFilter(expression.left, current, root)) &&
+        isTruthy(evaluateFilter(expression.right, current, root))
+
+    case 'or':
+      return isTruthy(evaluateFilter(expression.left, current, root)) ||
+        isTruthy(evaluateFilter(expression.right, current, root))
+
+    case 'compare':
+      return compare(
+        expression.operator,
+        toValue(evaluateFilter(expression.left, current, root)),
+        toValue(evaluateFilter(expression.right, current, root))
+      )
+  }
+}
+
+function toValue(result: any): any {
+  return isNodeList(result) ? result.nodes[0] : result
+}
+
+function isTruthy(result: any): boolean {
+  return isNodeList(result) ? result.nodes.length > 0 : Boolean(result)
+}
+
+function isNodeList(result: any): result is { nodes: any[] } {
+  return isObject(result) && Array.isArray((result as any).nodes)
+}
+
+function compare(operator: string, left: any, right: any): boolean {
+  switch (operator) {
+    case '==':
+      return JSON.stringify(left) === JSON.stringify(right)
+    case '!=':
+      return JSON.stringify(left) !== JSON.stringify(right)
+  }
+
+  // Ordering only makes sense between two numbers or two strings
+  const comparable = (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string')
+  if (!comparable) return false
+
+  switch (operator) {
+    case '<': return left < right
+    case '<=': return left <= right
+    case '>': return left > right
+    case '>=': return left >= right
+    default: return false
+  }
+}
+
+// JSONPath parsing (recursive descent, no eval)
+
+function compileJSONPath(path: string): PathSegment[] {
+  const parser = createParser(path)
+
+  parser.skipWhitespace()
+  if (!parser.consume('$')) {
+    throw parser.error('JSONPath must start with "$"')
+  }
+
+  const segments = parser.parseSegments()
+  parser.skipWhitespace()
+
+  if (!parser.done()) {
+    throw parser.error(`Unexpected "${path[parser.position()]}"`)
+  }
+
+  return segments
+}
+
+function createParser(source: string) {
+  let pos = 0
+
+  const peek = (text: string) => source.startsWith(text, pos)
+  const consume = (text: string) => {
+    if (!peek(text)) return false
+    pos += text.length
+    return true
+  }
+  const skipWhitespace = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++
+  }
+  const error = (message: string) => new Error(`Invalid JSONPath at position ${pos}: ${message}`)
+  const expect = (text: string) => {
+    skipWhitespace()
+    if (!consume(text)) throw error(`Expected "${text}"`)
+  }
+
+  const parseName = (): string => {
+    const match = /^[A-Za-z_$][\w$-]*/.exec(source.slice(pos))
+    if (!match) throw error('Expected a member name')
+    pos += match[0].length
+    return match[0]
+  }
+
+  const parseString = (): string => {
+    const quote = source[pos]
+    let result = ''
+    pos++
+
+    while (pos < source.length && source[pos] !== quote) {
+      if (source[pos] === '\\' && pos + 1 < source.length) pos++
+      result += source[pos++]
+    }
+
+    if (pos >= source.length) throw error('Unterminated string')
+    pos++
+    return result
+  }
+
+  const parseInteger = (): number | undefined => {
+    const match = /^-?\d+/.exec(source.slice(pos))
+    if (!match) return undefined
+    pos += match[0].length
+    return parseInt(match[0])
+  }
+
+  const parseBracketSelector = (): PathSelector => {
+    skipWhitespace()
+
+    if (consume('*')) return { kind: 'wildcard' }
+
+    if (source[pos] === '"' || source[pos] === "'") {
+      return { kind: 'name', name: parseString() }
+    }
+
+    if (consume('?')) {
+      skipWhitespace()
+      const parenthesized = consume('(')
+      const expression = parseOr()
+      if (parenthesized) expect(')')
+      return { kind: 'filter', expression }
+    }
+
+    const start = parseInteger()
+    skipWhitespace()
+
+    if (!peek(':')) {
+      if (start === undefined) throw error('Expected an index, name, slice, wildcard or filter')
+      return { kind: 'index', index: start }
+    }
+
+    consume(':')
+    skipWhitespace()
+    const end = parseInteger()
+    skipWhitespace()
+    let step: number | undefined
+    if (consume(':')) {
+      skipWhitespace()
+      step = parseInteger()
+    }
+
+    return { kind: 'slice', start, end, step }
+  }
+
+  const parseBracket = (): PathSelector[] => {
+    const selectors = [parseBracketSelector()]
+    skipWhitespace()
+
+    while (consume(',')) {
+      selectors.push(parseBracketSelector())
+      skipWhitespace()
+    }
+
+    expect(']')
+    return selectors
+  }
+
+  const parseSegments = (): PathSegment[] => {
+    const segments: PathSegment[] = []
+
+    for (;;) {
+      skipWhitespace()
+
+      if (consume('..')) {
+        if (consume('[')) {
+          segments.push({ descendant: true, selectors: parseBracket() })
+        } else if (consume('*')) {
+          segments.push({ descendant: true, selectors: [{ kind: 'wildcard' }] })
+        } else {
+          segments.push({ descendant: true, selectors: [{ kind: 'name', name: parseName() }] })
+        }
+      } else if (consume('.')) {
+        if (consume('*')) {
+          segments.push({ descendant: false, selectors: [{ kind: 'wildcard' }] })
+        } else {
+          segments.push({ descendant: false, selectors: [{ kind: 'name', name: parseName() }] })
+        }
+      } else if (consume('[')) {
+        segments.push({ descendant: false, selectors: parseBracket() })
+      } else {
+        return segments
+      }
+    }
+  }
+
+  const parseOr = (): FilterExpression => {
+    let left = parseAnd()
+    skipWhitespace()
+    while (consume('||')) {
+      left = { type: 'or', left, right: parseAnd() }
+      skipWhitespace()
+    }
+    return left
+  }
+
+  const parseAnd = (): FilterExpression => {
+    let left = parseComparison()
+    skipWhitespace()
+    while (consume('&&')) {
+      left = { type: 'and', left, right: parseComparison() }
+      skipWhitespace()
+    }
+    return left
+  }
+
+  const parseComparison = (): FilterExpression => {
+    const left = parseUnary()
+    skipWhitespace()
+
+    const operator = ['==', '!=', '<=', '>=', '<', '>'].find(op => peek(op))
+    if (!operator) return left
+
+    consume(operator)
+    return { type: 'compare', operator, left, right: parseUnary() }
+  }
+
+  const parseUnary = (): FilterExpression => {
+    skipWhitespace()
+
+    if (consume('!')) {
+      return { type: 'not', expression: parseUnary() }
+    }
+
+    if (consume('(')) {
+      const expression = parseOr()
+      expect(')')
+      return expression
+    }
+
+    if (peek('@') || peek('$')) {
+      const root = source[pos++] as '@' | '$'
+      return { type: 'path', root, segments: parseSegments() }
+    }
+
+    if (source[pos] === '"' || source[pos] === "'") {
+      return { type: 'literal', value: parseString() }
+    }
+
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(pos))
+    if (number) {
+      pos += number[0].length
+      return { type: 'literal', value: parseFloat(number[0]) }
+    }
+
+    for (const [word, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (consume(word)) return { type: 'literal', value }
+    }
+
+    throw error('Expected a path, literal or "("')
+  }
+
+  return {
+    consume,
+    skipWhitespace,
+    error,
+    parseSegments,
+    done: () => pos >= source.length,
+    position: () => pos
+  }
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
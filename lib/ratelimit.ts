@@ -0,0 +1,115 @@
+// lib/ratelimit.ts - Rate limiting shared by every edge instance through the store
+import { db, storage } from './database'
+
+export type RateLimitPolicy = {
+  name: string
+  limit: number
+  windowSeconds: number
+}
+
+export type RateLimitResult = {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Seconds until the current window ends
+  reset: number
+  policy: RateLimitPolicy
+}
+
+const KEY_PREFIX = 'ratelimit:'
+
+// Requests per minute for reads by an anonymous client (API_RATE_LIMIT)
+const READ_LIMIT = Math.max(1, parseInt(process.env.API_RATE_LIMIT || '1000') || 1000)
+
+export const RATE_LIMIT_POLICIES: Record<string, RateLimitPolicy> = {
+  read: { name: 'read', limit: READ_LIMIT, windowSeconds: 60 },
+  update: { name: 'update', limit: 100, windowSeconds: 60 },
+  upload: { name: 'upload', limit: 20, windowSeconds: 60 },
+  'cache-post': { name: 'cache-post', limit: 30, windowSeconds: 60 },
+  admin: { name: 'admin', limit: 30, windowSeconds: 60 }
+}
+
+// Multiplier applied to every policy. Anonymous clients are limited per IP,
+// API keys per key; the root key is not limited.
+export const RATE_LIMIT_TIERS: Record<string, number> = {
+  anonymous: 1,
+  standard: 2,
+  premium: 10,
+  unlimited: Infinity
+}
+
+export function isValidTier(tier: any): boolean {
+  return typeof tier === 'string' && tier !== 'anonymous' && Object.prototype.hasOwnProperty.call(RATE_LIMIT_TIERS, tier)
+}
+
+// Policy for a request, or null when the route is not limited. File uploads
+// (multipart POST /api/update and every write to /api/update/uploads) are
+// limited as uploads; JSON updates and bulk deletes on /api/update as updates.
+export function getRoutePolicy(
+  pathname: string,
+  method: string,
+  contentType: string | null = null
+): RateLimitPolicy | null {
+  const path = pathname.replace(/^\/api\/ns\/[^/]+/, '/api')
+
+  if (method === 'OPTIONS' || path === '/api/health') return null
+  if (path.startsWith('/api/admin/')) return RATE_LIMIT_POLICIES.admin
+  if (method === 'GET' || method === 'HEAD') return RATE_LIMIT_POLICIES.read
+  if (path === '/api/update/uploads' || path.startsWith('/api/update/uploads/')) return RATE_LIMIT_POLICIES.upload
+  if (path === '/api/update' && method === 'POST' && (contentType || '').includes('multipart/form-data')) {
+    return RATE_LIMIT_POLICIES.upload
+  }
+  if (path === '/api/data/cache') return RATE_LIMIT_POLICIES['cache-post']
+
+  return RATE_LIMIT_POLICIES.update
+}
+
+// Sliding window counter: one atomic counter per fixed window, with the
+// previous window weighted by how much of it still overlaps the sliding one.
+// Two store round trips per request, and every instance sees the same count.
+export async function checkRateLimit(
+  identity: string,
+  policy: RateLimitPolicy,
+  tier = 'anonymous'
+): Promise<RateLimitResult> {
+  const multiplier = RATE_LIMIT_TIERS[tier] ?? 1
+  const windowMs = policy.windowSeconds * 1000
+  const now = Date.now()
+  const window = Math.floor(now / windowMs)
+  const reset = Math.ceil((windowMs - (now % windowMs)) / 1000)
+
+  if (multiplier === Infinity) {
+    return { allowed: true, limit: Infinity, remaining: Infinity, reset, policy }
+  }
+
+  const limit = Math.floor(policy.limit * multiplier)
+  const key = `${KEY_PREFIX}${policy.name}:${identity}`
+
+  const [current, previous] = await Promise.all([
+    db.increment(`${key}:${window}`, policy.windowSeconds * 2),
+    storage.get<number>(`${key}:${window - 1}`)
+  ])
+
+  const overlap = 1 - (now % windowMs) / windowMs
+  const count = Math.floor(Number(previous || 0) * overlap) + current
+
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    reset,
+    policy
+  }
+}
+
+// RateLimit-* response headers (IETF draft-ietf-httpapi-ratelimit-headers)
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  if (result.limit === Infinity) return {}
+
+  return {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.reset),
+    'RateLimit-Policy': `${result.limit};w=${result.policy.windowSeconds};name="${result.policy.name}"`
+  }
+}
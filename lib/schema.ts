@@ -0,0 +1,350 @@
+// lib/schema.ts - JSON Schema registry and validation for writes
+import { db, NAMESPACE_PREFIX } from './database'
+import { deepEqual } from './utils'
+
+export type SchemaError = {
+  path: string
+  keyword: string
+  message: string
+}
+
+export type SchemaEntry = {
+  type: 'key' | 'prefix'
+  match: string
+  schema: any
+  updatedAt: string
+}
+
+// Registered schemas, indexed by "key:<key>" or "prefix:<prefix>"
+export type SchemaRegistry = Record<string, SchemaEntry>
+
+const REGISTRY_KEY = 'schemas:registry'
+const MAX_ERRORS = 50
+
+const TYPES = ['null', 'boolean', 'object', 'array', 'number', 'integer', 'string']
+
+// Load all registered schemas
+export async function getSchemaRegistry(): Promise<SchemaRegistry> {
+  const record = await db.get(REGISTRY_KEY)
+  return (record?.data as SchemaRegistry) || {}
+}
+
+// Register (or replace) the schema for a key or key prefix
+export async function registerSchema(type: 'key' | 'prefix', match: string, schema: any): Promise<SchemaEntry> {
+  const registry = await getSchemaRegistry()
+  const entry: SchemaEntry = { type, match, schema, updatedAt: new Date().toISOString() }
+
+  registry[`${type}:${match}`] = entry
+  await db.set(REGISTRY_KEY, registry)
+
+  return entry
+}
+
+// Remove a registered schema; returns false if there was none
+export async function removeSchema(type: 'key' | 'prefix', match: string): Promise<boolean> {
+  const registry = await getSchemaRegistry()
+  if (!registry[`${type}:${match}`]) return false
+
+  delete registry[`${type}:${match}`]
+  await db.set(REGISTRY_KEY, registry)
+
+  return true
+}
+
+// Schema for a key: an exact key match wins, otherwise the longest matching prefix.
+// Keys and matches are storage keys, so namespaced entries only see their namespace.
+export function findSchema(registry: SchemaRegistry, key: string): SchemaEntry | null {
+  if (registry[`key:${key}`]) {
+    return registry[`key:${key}`]
+  }
+
+  const namespaced = key.startsWith(NAMESPACE_PREFIX)
+
+  return Object.keys(registry)
+    .map(id => registry[id])
+    .filter(entry => entry.type === 'prefix' && key.startsWith(entry.match))
+    .filter(entry => !namespaced || entry.match.startsWith(NAMESPACE_PREFIX))
+    .sort((a, b) => b.match.length - a.match.length)[0] || null
+}
+
+// Validate data for a key against its registered schema, if any
+export async function validateForKey(
+  key: string,
+  data: any,
+  registry?: SchemaRegistry
+): Promise<{ valid: boolean; schema?: string; errors: SchemaError[] }> {
+  const entry = findSchema(registry || (await getSchemaRegistry()), key)
+  if (!entry) {
+    return { valid: true, errors: [] }
+  }
+
+  const errors = validateSchema(data, entry.schema)
+  return { valid: errors.length === 0, schema: `${entry.type}:${entry.match}`, errors }
+}
+
+// Check that a schema is well-formed enough to validate with
+export function checkSchema(schema: any, path: string = '#'): string | null {
+  if (typeof schema === 'boolean') return null
+  if (!isObject(schema)) return `${path}: schema must be an object or boolean`
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type]
+  const unknownType = types.find((type: any) => !TYPES.includes(type))
+  if (unknownType !== undefined) return `${path}/type: unknown type "${unknownType}"`
+
+  if (schema.required !== undefined && (!Array.isArray(schema.required) || schema.required.some((name: any) => typeof name !== 'string'))) {
+    return `${path}/required: must be an array of strings`
+  }
+
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    return `${path}/enum: must be an array`
+  }
+
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern)
+    } catch {
+      return `${path}/pattern: invalid regular expression`
+    }
+  }
+
+  const subschemas: Array<[string, any]> = []
+
+  for (const keyword of ['properties', 'patternProperties', 'definitions', '$defs']) {
+    if (schema[keyword] !== undefined) {
+      if (!isObject(schema[keyword])) return `${path}/${keyword}: must be an object`
+      Object.keys(schema[keyword]).forEach(name => subschemas.push([`${path}/${keyword}/${name}`, schema[keyword][name]]))
+    }
+  }
+
+  for (const keyword of ['allOf', 'anyOf', 'oneOf']) {
+    if (schema[keyword] !== undefined) {
+      if (!Array.isArray(schema[keyword]) || schema[keyword].length === 0) return `${path}/${keyword}: must be a non-empty array`
+      schema[keyword].forEach((sub: any, i: number) => subschemas.push([`${path}/${keyword}/${i}`, sub]))
+    }
+  }
+
+  for (const keyword of ['not', 'additionalProperties', 'contains', 'propertyNames']) {
+    if (schema[keyword] !== undefined) subschemas.push([`${path}/${keyword}`, schema[keyword]])
+  }
+
+  if (Array.isArray(schema.items)) {
+    schema.items.forEach((sub: any, i: number) => subschemas.push([`${path}/items/${i}`, sub]))
+  } else if (schema.items !== undefined) {
+    subschemas.push([`${path}/items`, schema.items])
+  }
+
+  for (const [subPath, sub] of subschemas) {
+    const error = checkSchema(sub, subPath)
+    if (error) return error
+  }
+
+  return null
+}
+
+// Validate a value against a JSON Schema (draft-07 subset). Error paths are JSON Pointers.
+export function validateSchema(data: any, schema: any): SchemaError[] {
+  const errors: SchemaError[] = []
+  validateNode(data, schema, '', schema, errors)
+  return errors.slice(0, MAX_ERRORS)
+}
+
+function validateNode(value: any, schema: any, path: string, root: any, errors: SchemaError[]): void {
+  if (errors.length >= MAX_ERRORS) return
+
+  const fail = (keyword: string, message: string, at: string = path) => {
+    errors.push({ path: at || '/', keyword, message })
+  }
+
+  if (schema === true) return
+  if (schema === false) return fail('false', 'no value is allowed here')
+  if (!isObject(schema)) return
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(root, schema.$ref)
+    if (target === undefined) return fail('$ref', `cannot resolve ${schema.$ref}`)
+    validateNode(value, target, path, root, errors)
+  }
+
+  // Type
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(type => matchesType(value, type))) {
+      return fail('type', `must be ${types.join(' or ')}, got ${typeOf(value)}`)
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    fail('const', `must be equal to ${JSON.stringify(schema.const)}`)
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => deepEqual(value, option))) {
+    fail('enum', `must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`)
+  }
+
+  // Numbers
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) fail('minimum', `must be >= ${schema.minimum}`)
+    if (typeof schema.maximum === 'number' && value > schema.maximum) fail('maximum', `must be <= ${schema.maximum}`)
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) fail('exclusiveMinimum', `must be > ${schema.exclusiveMinimum}`)
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) fail('exclusiveMaximum', `must be < ${schema.exclusiveMaximum}`)
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0 && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) {
+      fail('multipleOf', `must be a multiple of ${schema.multipleOf}`)
+    }
+  }
+
+  // Strings
+  if (typeof value === 'string') {
+    const length = Array.from(value).length
+    if (typeof schema.minLength === 'number' && length < schema.minLength) fail('minLength', `must have at least ${schema.minLength} characters`)
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) fail('maxLength', `must have at most ${schema.maxLength} characters`)
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) fail('pattern', `must match pattern ${schema.pattern}`)
+    if (typeof schema.format === 'string' && FORMATS[schema.format] && !FORMATS[schema.format].test(value)) {
+      fail('format', `must be a valid ${schema.format}`)
+    }
+  }
+
+  // Arrays
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) fail('minItems', `must have at least ${schema.minItems} items`)
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) fail('maxItems', `must have at most ${schema.maxItems} items`)
+
+    if (schema.uniqueItems === true) {
+      const seen = new Set<string>()
+      value.forEach((item, i) => {
+        const serialized = JSON.stringify(item)
+        if (seen.has(serialized)) fail('uniqueItems', 'duplicate item', `${path}/${i}`)
+        seen.add(serialized)
+      })
+    }
+
+    if (Array.isArray(schema.items)) {
+      schema.items.forEach((itemSchema: any, i: number) => {
+        if (i < value.length) validateNode(value[i], itemSchema, `${path}/${i}`, root, errors)
+      })
+      if (schema.additionalItems !== undefined) {
+        value.slice(schema.items.length).forEach((item, i) => {
+          validateNode(item, schema.additionalItems, `${path}/${schema.items.length + i}`, root, errors)
+        })
+      }
+    } else if (schema.items !== undefined) {
+      value.forEach((item, i) => validateNode(item, schema.items, `${path}/${i}`, root, errors))
+    }
+
+    if (schema.contains !== undefined && !value.some(item => isValid(item, schema.contains, root))) {
+      fail('contains', 'must contain at least one matching item')
+    }
+  }
+
+  // Objects
+  if (isObject(value)) {
+    const names = Object.keys(value)
+
+    if (typeof schema.minProperties === 'number' && names.length < schema.minProperties) fail('minProperties', `must have at least ${schema.minProperties} properties`)
+    if (typeof schema.maxProperties === 'number' && names.length > schema.maxProperties) fail('maxProperties', `must have at most ${schema.maxProperties} properties`)
+
+    if (Array.isArray(schema.required)) {
+      schema.required
+        .filter((name: string) => !Object.prototype.hasOwnProperty.call(value, name))
+        .forEach((name: string) => fail('required', 'is required', `${path}/${escapeToken(name)}`))
+    }
+
+    const properties = isObject(schema.properties) ? schema.properties : {}
+    const patterns = isObject(schema.patternProperties) ? Object.keys(schema.patternProperties) : []
+
+    names.forEach(name => {
+      const childPath = `${path}/${escapeToken(name)}`
+      let matched = false
+
+      if (Object.prototype.hasOwnProperty.call(properties, name)) {
+        matched = true
+        validateNode(value[name], properties[name], childPath, root, errors)
+      }
+
+      patterns.forEach(pattern => {
+        if (new RegExp(pattern).test(name)) {
+          matched = true
+          validateNode(value[name], schema.patternProperties[pattern], childPath, root, errors)
+        }
+      })
+
+      if (!matched && schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) {
+          fail('additionalProperties', 'is not allowed', childPath)
+        } else {
+          validateNode(value[name], schema.additionalProperties, childPath, root, errors)
+        }
+      }
+
+      if (schema.propertyNames !== undefined) {
+        validateNode(name, schema.propertyNames, childPath, root, errors)
+      }
+    })
+  }
+
+  // Combinators
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((sub: any) => validateNode(value, sub, path, root, errors))
+  }
+
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((sub: any) => isValid(value, sub, root))) {
+    fail('anyOf', 'must match at least one schema in anyOf')
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((sub: any) => isValid(value, sub, root)).length
+    if (matches !== 1) fail('oneOf', `must match exactly one schema in oneOf (matched ${matches})`)
+  }
+
+  if (schema.not !== undefined && isValid(value, schema.not, root)) {
+    fail('not', 'must not match the schema in not')
+  }
+}
+
+const FORMATS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z\d+.-]*:\S+$/i,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+}
+
+// Validate against a subschema without recording its errors
+function isValid(value: any, schema: any, root: any): boolean {
+  const errors: SchemaError[] = []
+  validateNode(value, schema, '', root, errors)
+  return errors.length === 0
+}
+
+function resolveRef(root: any, ref: string): any {
+  if (ref === '#') return root
+  if (!ref.startsWith('#/')) return undefined
+
+  return ref
+    .slice(2)
+    .split('/')
+    .map(token => decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node, token) => (node === undefined || node === null ? undefined : node[token]), root)
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'integer': return typeof value === 'number' && Number.isInteger(value)
+    case 'number': return typeof value === 'number' && isFinite(value)
+    default: return typeOf(value) === type
+  }
+}
+
+function typeOf(value: any): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
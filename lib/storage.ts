@@ -0,0 +1,522 @@
+// lib/storage.ts - Pluggable storage drivers (Vercel KV, memory, file)
+import { kv } from '@vercel/kv'
+
+export type StorageDriverName = 'kv' | 'memory' | 'file'
+
+// One page of a SCAN; cursor '0' starts a scan and marks its end
+export type ScanResult = {
+  cursor: string
+  keys: string[]
+}
+
+// What a conditional write expects to find at a key: a record of this
+// version (and content hash, when given), or no value at all for version 0
+export type RecordGuard = {
+  key: string
+  version: number
+  hash?: string
+}
+
+// Minimal key/value contract every backend has to satisfy
+// A set member added, or removed, in the same commit as other writes
+export type SetChange = {
+  key: string
+  member: string
+  remove?: boolean
+}
+
+export type StorageDriver = {
+  readonly name: StorageDriverName
+  get<T = any>(key: string): Promise<T | null>
+  mget<T = any>(keys: string[]): Promise<(T | null)[]>
+  set(key: string, value: any, ttlSeconds?: number): Promise<void>
+  // All entries and set changes or none: a transaction where the backend has
+  // them. Each entry may carry its own TTL.
+  mset(entries: Array<[string, any, number?]>, changes?: SetChange[]): Promise<void>
+  // Write the entries (each with its own TTL), delete the keys and apply the
+  // set changes only if every guard still holds, checked and applied in one
+  // step. False, with nothing changed, when a guard fails.
+  commitIf(
+    guards: RecordGuard[],
+    entries: Array<[string, any, number?]>,
+    deletes?: string[],
+    changes?: SetChange[]
+  ): Promise<boolean>
+  del(key: string): Promise<void>
+  mdel(keys: string[]): Promise<void>
+  exists(key: string): Promise<boolean>
+  // Cursor-based iteration; `count` is a hint for keys examined per call,
+  // so a page may be empty before the scan ends
+  scan(cursor: string, pattern: string, count?: number): Promise<ScanResult>
+  // Sets; ttlSeconds refreshes the lifetime of the whole set
+  sadd(key: string, members: string[], ttlSeconds?: number): Promise<void>
+  smembers(key: string): Promise<string[]>
+  // ttlSeconds applies when the counter is created
+  incr(key: string, ttlSeconds?: number): Promise<number>
+}
+
+// Checks the guards, then applies the writes, deletes and set changes. KEYS:
+// guarded keys, written keys, deleted keys, then changed sets. ARGV: guard,
+// entry and delete counts, a version and hash per guard, a value and TTL per
+// entry, then "add" or "remove" and the member per set change.
+const COMMIT_IF_SCRIPT = `
+local guards, entries, deletes = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+for i = 1, guards do
+  local version, hash = 0, ''
+  local current = redis.call('GET', KEYS[i])
+  if current then
+    local ok, record = pcall(cjson.decode, current)
+    if ok and type(record) == 'table' then
+      version = tonumber(record.version) or 0
+      if type(record.metadata) == 'table' and type(record.metadata.hash) == 'string' then
+        hash = record.metadata.hash
+      end
+    else
+      version = -1
+    end
+  end
+  if version ~= tonumber(ARGV[2 + i * 2]) or (ARGV[3 + i * 2] ~= '' and hash ~= ARGV[3 + i * 2]) then
+    return 0
+  end
+end
+local base = 3 + guards * 2
+for i = 1, entries do
+  local ttl = tonumber(ARGV[base + i * 2])
+  if ttl > 0 then
+    redis.call('SET', KEYS[guards + i], ARGV[base + i * 2 - 1], 'EX', ttl)
+  else
+    redis.call('SET', KEYS[guards + i], ARGV[base + i * 2 - 1])
+  end
+end
+for i = guards + entries + 1, guards + entries + deletes do
+  redis.call('DEL', KEYS[i])
+end
+local offset, changes = guards + entries + deletes, base + entries * 2
+for i = 1, #KEYS - offset do
+  if ARGV[changes + i * 2 - 1] == 'remove' then
+    redis.call('SREM', KEYS[offset + i], ARGV[changes + i * 2])
+  else
+    redis.call('SADD', KEYS[offset + i], ARGV[changes + i * 2])
+  end
+end
+return 1
+`
+
+// Vercel KV (Upstash Redis) driver
+export function createKVDriver(): StorageDriver {
+  return {
+    name: 'kv',
+
+    async get<T>(key: string): Promise<T | null> {
+      return await kv.get<T>(key)
+    },
+
+    async mget<T>(keys: string[]): Promise<(T | null)[]> {
+      if (keys.length === 0) return []
+      return await kv.mget<(T | null)[]>(...keys)
+    },
+
+    async set(key: string, value: any, ttlSeconds?: number): Promise<void> {
+      if (ttlSeconds) {
+        await kv.setex(key, ttlSeconds, value)
+      } else {
+        await kv.set(key, value)
+      }
+    },
+
+    async mset(entries: Array<[string, any, number?]>, changes: SetChange[] = []): Promise<void> {
+      if (entries.length === 0 && changes.length === 0) return
+      // MULTI/EXEC, so readers never see part of the batch
+      const transaction = kv.multi()
+
+      entries.forEach(([key, value, ttlSeconds]) => {
+        if (ttlSeconds) {
+          transaction.setex(key, ttlSeconds, value)
+        } else {
+          transaction.set(key, value)
+        }
+      })
+      changes.forEach(({ key, member, remove }) => {
+        if (remove) {
+          transaction.srem(key, member)
+        } else {
+          transaction.sadd(key, member)
+        }
+      })
+
+      await transaction.exec()
+    },
+
+    // A Lua script runs without other commands in between, which REST
+    // transactions can't do: they have no WATCH
+    async commitIf(
+      guards: RecordGuard[],
+      entries: Array<[string, any, number?]>,
+      deletes: string[] = [],
+      changes: SetChange[] = []
+    ): Promise<boolean> {
+      const keys = [
+        ...guards.map(guard => guard.key),
+        ...entries.map(([key]) => key),
+        ...deletes,
+        ...changes.map(change => change.key)
+      ]
+      const args: any[] = [guards.length, entries.length, deletes.length]
+
+      guards.forEach(guard => args.push(guard.version, guard.hash || ''))
+      entries.forEach(([, value, ttlSeconds]) => args.push(value, ttlSeconds || 0))
+      changes.forEach(({ member, remove }) => args.push(remove ? 'remove' : 'add', member))
+
+      return (await kv.eval(COMMIT_IF_SCRIPT, keys, args)) === 1
+    },
+
+    async del(key: string): Promise<void> {
+      await kv.del(key)
+    },
+
+    async mdel(keys: string[]): Promise<void> {
+      if (keys.length === 0) return
+      await kv.del(...keys)
+    },
+
+    async exists(key: string): Promise<boolean> {
+      return (await kv.exists(key)) === 1
+    },
+
+    async scan(cursor: string, pattern: string, count: number = 100): Promise<ScanResult> {
+      const [next, keys] = await kv.scan(Number(cursor) || 0, { match: pattern, count })
+      return { cursor: String(next), keys }
+    },
+
+    async sadd(key: string, members: string[], ttlSeconds?: number): Promise<void> {
+      if (members.length === 0) return
+      const pipeline = kv.pipeline()
+
+      pipeline.sadd(key, ...members)
+      if (ttlSeconds) {
+        pipeline.expire(key, ttlSeconds)
+      }
+
+      await pipeline.exec()
+    },
+
+    async smembers(key: string): Promise<string[]> {
+      return await kv.smembers(key)
+    },
+
+    async incr(key: string, ttlSeconds?: number): Promise<number> {
+      const count = await kv.incr(key)
+      if (ttlSeconds && count === 1) {
+        await kv.expire(key, ttlSeconds)
+      }
+      return count
+    },
+  }
+}
+
+type MemoryEntry = { value: string; expires?: number }
+
+// Shared across route bundles in the same process so every endpoint sees the same data
+const globalStore = globalThis as typeof globalThis & {
+  __memoryStorage?: Map<string, MemoryEntry>
+}
+
+// In-process driver for local development and CI. Values are serialized on
+// write so callers can't mutate stored data by reference, matching KV.
+export function createMemoryDriver(
+  store: Map<string, MemoryEntry> = (globalStore.__memoryStorage ??= new Map()),
+  onChange?: () => void
+): StorageDriver {
+  const read = (key: string): MemoryEntry | undefined => {
+    const entry = store.get(key)
+    if (entry?.expires && entry.expires <= Date.now()) {
+      store.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  const write = (key: string, value: any, ttlSeconds?: number) => {
+    store.set(key, {
+      value: JSON.stringify(value),
+      expires: ttlSeconds ? Date.now() + ttlSeconds * 1000 : undefined,
+    })
+  }
+
+  // Like Redis, a set that loses its last member is gone
+  const change = ({ key, member, remove }: SetChange) => {
+    const entry = read(key)
+    const current: string[] = entry ? JSON.parse(entry.value) : []
+    const updated = remove
+      ? current.filter(existing => existing !== member)
+      : current.indexOf(member) === -1 ? current.concat(member) : current
+
+    if (updated.length === 0) {
+      store.delete(key)
+    } else {
+      store.set(key, { value: JSON.stringify(updated), expires: entry?.expires })
+    }
+  }
+
+  return {
+    name: 'memory',
+
+    async get<T>(key: string): Promise<T | null> {
+      const entry = read(key)
+      return entry ? (JSON.parse(entry.value) as T) : null
+    },
+
+    async mget<T>(keys: string[]): Promise<(T | null)[]> {
+      return keys.map(key => {
+        const entry = read(key)
+        return entry ? (JSON.parse(entry.value) as T) : null
+      })
+    },
+
+    async set(key: string, value: any, ttlSeconds?: number): Promise<void> {
+      write(key, value, ttlSeconds)
+      onChange?.()
+    },
+
+    async mset(entries: Array<[string, any, number?]>, changes: SetChange[] = []): Promise<void> {
+      entries.forEach(([key, value, ttlSeconds]) => write(key, value, ttlSeconds))
+      changes.forEach(change)
+      onChange?.()
+    },
+
+    // Synchronous from check to write, so no other operation can interleave
+    async commitIf(
+      guards: RecordGuard[],
+      entries: Array<[string, any, number?]>,
+      deletes: string[] = [],
+      changes: SetChange[] = []
+    ): Promise<boolean> {
+      const holds = guards.every(guard => {
+        const entry = read(guard.key)
+        if (!entry) return guard.version === 0
+
+        const record = JSON.parse(entry.value)
+        if (!record || typeof record !== 'object') return false
+        return (Number(record.version) || 0) === guard.version && (!guard.hash || record.metadata?.hash === guard.hash)
+      })
+      if (!holds) return false
+
+      entries.forEach(([key, value, ttlSeconds]) => write(key, value, ttlSeconds))
+      deletes.forEach(key => store.delete(key))
+      changes.forEach(change)
+      onChange?.()
+      return true
+    },
+
+    async del(key: string): Promise<void> {
+      if (store.delete(key)) onChange?.()
+    },
+
+    async mdel(keys: string[]): Promise<void> {
+      const deleted = keys.filter(key => store.delete(key))
+      if (deleted.length > 0) onChange?.()
+    },
+
+    async exists(key: string): Promise<boolean> {
+      return read(key) !== undefined
+    },
+
+    // Walks the keys in sorted order. The cursor is the last key examined, so
+    // keys deleted mid-scan don't shift the ones not yet returned.
+    async scan(cursor: string, pattern: string, count: number = 100): Promise<ScanResult> {
+      const after = cursor === '0' ? null : cursor.slice(1)
+      const matcher = globToRegExp(pattern)
+      const all = Array.from(store.keys()).sort()
+      const start = after === null ? 0 : all.findIndex(key => key > after)
+
+      if (start === -1) return { cursor: '0', keys: [] }
+
+      const page = all.slice(start, start + count)
+      return {
+        cursor: start + count >= all.length ? '0' : `>${page[page.length - 1]}`,
+        keys: page.filter(key => matcher.test(key) && read(key) !== undefined)
+      }
+    },
+
+    async sadd(key: string, members: string[], ttlSeconds?: number): Promise<void> {
+      const entry = read(key)
+      const current: string[] = entry ? JSON.parse(entry.value) : []
+      const merged = current.concat(members.filter(member => current.indexOf(member) === -1))
+
+      const expires = ttlSeconds ? Date.now() + ttlSeconds * 1000 : entry?.expires
+      store.set(key, { value: JSON.stringify(merged), expires })
+      onChange?.()
+    },
+
+    async smembers(key: string): Promise<string[]> {
+      const entry = read(key)
+      return entry ? JSON.parse(entry.value) : []
+    },
+
+    async incr(key: string, ttlSeconds?: number): Promise<number> {
+      const entry = read(key)
+      const current = entry ? Number(JSON.parse(entry.value)) : 0
+      if (Number.isNaN(current)) {
+        throw new Error('ERR value is not an integer or out of range')
+      }
+      const expires = entry ? entry.expires : ttlSeconds ? Date.now() + ttlSeconds * 1000 : undefined
+      store.set(key, { value: JSON.stringify(current + 1), expires })
+      onChange?.()
+      return current + 1
+    },
+  }
+}
+
+// File-backed driver: the memory driver persisted to a JSON file after every
+// write. Needs Node's `fs`, so use it with the Node.js runtime rather than the
+// edge sandbox.
+export function createFileDriver(filePath: string = process.env.STORAGE_FILE_PATH || '.data/storage.json'): StorageDriver {
+  const store = new Map<string, MemoryEntry>()
+  let writes: Promise<void> = Promise.resolve()
+
+  // Imported at runtime so edge bundles never try to resolve Node built-ins
+  const ready: Promise<any> = import(/* webpackIgnore: true */ 'fs')
+    .then(async fs => {
+      try {
+        const contents = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as Record<string, MemoryEntry>
+        Object.keys(contents).forEach(key => store.set(key, contents[key]))
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') {
+          console.warn(`[STORAGE] Could not load ${filePath}, starting empty:`, error)
+        }
+      }
+      return fs
+    })
+    .catch(error => {
+      throw new Error(`File storage driver requires the Node.js runtime: ${error}`)
+    })
+
+  // Serialize writes so the file always reflects the latest state
+  const persist = () => {
+    const contents: Record<string, MemoryEntry> = {}
+    store.forEach((entry, key) => {
+      contents[key] = entry
+    })
+
+    writes = writes
+      .then(() => ready)
+      .then(async fs => {
+        const dir = filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '.'
+        await fs.promises.mkdir(dir, { recursive: true })
+        await fs.promises.writeFile(filePath, JSON.stringify(contents))
+      })
+      .catch(error => console.error(`[STORAGE] Failed to persist ${filePath}:`, error))
+  }
+
+  const memory = createMemoryDriver(store, persist)
+
+  // Every operation waits for the initial load
+  return {
+    name: 'file',
+
+    async get<T>(key: string): Promise<T | null> {
+      await ready
+      return await memory.get<T>(key)
+    },
+
+    async mget<T>(keys: string[]): Promise<(T | null)[]> {
+      await ready
+      return await memory.mget<T>(keys)
+    },
+
+    async set(key: string, value: any, ttlSeconds?: number): Promise<void> {
+      await ready
+      await memory.set(key, value, ttlSeconds)
+    },
+
+    async mset(entries: Array<[string, any, number?]>, changes?: SetChange[]): Promise<void> {
+      await ready
+      await memory.mset(entries, changes)
+    },
+
+    async commitIf(
+      guards: RecordGuard[],
+      entries: Array<[string, any, number?]>,
+      deletes?: string[],
+      changes?: SetChange[]
+    ): Promise<boolean> {
+      await ready
+      return await memory.commitIf(guards, entries, deletes, changes)
+    },
+
+    async del(key: string): Promise<void> {
+      await ready
+      await memory.del(key)
+    },
+
+    async mdel(keys: string[]): Promise<void> {
+      await ready
+      await memory.mdel(keys)
+    },
+
+    async exists(key: string): Promise<boolean> {
+      await ready
+      return await memory.exists(key)
+    },
+
+    async scan(cursor: string, pattern: string, count?: number): Promise<ScanResult> {
+      await ready
+      return await memory.scan(cursor, pattern, count)
+    },
+
+    async sadd(key: string, members: string[], ttlSeconds?: number): Promise<void> {
+      await ready
+      await memory.sadd(key, members, ttlSeconds)
+    },
+
+    async smembers(key: string): Promise<string[]> {
+      await ready
+      return await memory.smembers(key)
+    },
+
+    async incr(key: string, ttlSeconds?: number): Promise<number> {
+      await ready
+      return await memory.incr(key, ttlSeconds)
+    },
+  }
+}
+
+// Pick a driver from STORAGE_DRIVER (defaults to Vercel KV)
+export function createStorageDriver(name: string = process.env.STORAGE_DRIVER || 'kv'): StorageDriver {
+  switch (name) {
+    case 'kv':
+      return createKVDriver()
+    case 'memory':
+      return createMemoryDriver()
+    case 'file':
+      return createFileDriver()
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${name}". Use: kv, memory, file`)
+  }
+}
+
+// Convert a Redis-style glob (*, ?, [abc]) into a RegExp
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*') {
+      source += '.*'
+    } else if (char === '?') {
+      source += '.'
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1)
+      if (end === -1) {
+        source += '\\['
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`
+        i = end
+      }
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
@@ -0,0 +1,84 @@
+// lib/updates.ts - Update history logging shared by write endpoints
+import { db } from './database'
+
+// An atomic bulk update, with the writes and cache invalidations it made
+export type UpdateBatch = {
+  id: string
+  namespace: string
+  timestamp: string
+  items: Array<{ key: string; version: number; size: number }>
+  invalidated: { keys: string[]; tags: string[] }
+  clientIP?: string
+}
+
+const BATCH_PREFIX = 'batches:'
+
+// Log entries, and the batches they refer to, are kept for 7 days
+const LOG_TTL = 7 * 24 * 60 * 60
+
+// Log update activity
+export async function logUpdate(key: string, details: any) {
+  try {
+    const logEntry = {
+      timestamp: new Date().toISOString(),
+      ...details
+    }
+    
+    // Increment counter; its value keeps entries written in the same
+    // millisecond (e.g. one key twice in a batch) apart
+    const sequence = await db.increment(`updates:${key}`)
+    
+    // Add to log
+    await db.set(`updates:log:${key}:${Date.now()}-${sequence}`, logEntry, LOG_TTL)
+    
+  } catch (error) {
+    console.warn('Failed to log update:', error)
+    // Don't throw error, as this is non-critical
+  }
+}
+
+// Suffix of a log entry key: the timestamp and the update count, or just the
+// timestamp for entries written before the count was added
+export const LOG_SUFFIX = /:(\d+)(?:-(\d+))?$/
+
+// Log entry keys of a key, newest first
+export async function listUpdateLog(key: string): Promise<string[]> {
+  const prefix = `updates:log:${key}`
+  
+  // The pattern also matches keys nested under this one (e.g. "a:b" for "a"),
+  // so only take entries whose suffix is the log timestamp and count
+  const entries: Array<{ logKey: string; time: number; sequence: number }> = []
+  ;(await db.list(`${prefix}:*`)).forEach(logKey => {
+    const match = logKey.slice(prefix.length).match(LOG_SUFFIX)
+    if (match && match.index === 0) {
+      entries.push({ logKey, time: Number(match[1]), sequence: Number(match[2] || 0) })
+    }
+  })
+  
+  return entries
+    .sort((a, b) => b.time - a.time || b.sequence - a.sequence)
+    .map(entry => entry.logKey)
+}
+
+// Remove the update counter and log entries of a key
+export async function purgeUpdateLog(key: string): Promise<number> {
+  const logKeys = await listUpdateLog(key)
+  
+  await db.deleteMany([...logKeys, `updates:${key}`])
+  
+  return logKeys.length
+}
+
+// Record a batch; its log entries carry the batch ID
+export async function logBatch(batch: UpdateBatch): Promise<void> {
+  try {
+    await db.set(`${BATCH_PREFIX}${batch.id}`, batch, LOG_TTL)
+  } catch (error) {
+    console.warn('Failed to log batch:', error)
+  }
+}
+
+export async function getBatch(id: string): Promise<UpdateBatch | null> {
+  const record = await db.get(`${BATCH_PREFIX}${id}`)
+  return record ? record.data as UpdateBatch : null
+}
@@ -0,0 +1,182 @@
+// lib/uploads.ts - Resumable upload sessions: numbered parts assembled into one document
+import { db } from './database'
+import { fromBase64, toBase64 } from './compression'
+import { SourceFormat } from './formats'
+import { sha256, VaryPolicy } from './utils'
+
+export type UploadSession = {
+  id: string
+  namespace: string
+  key: string
+  filename: string
+  contentType: string
+  format: SourceFormat
+  // Declared size of the whole file, checked on completion
+  size?: number
+  // Write options applied when the document is committed
+  ttl?: number
+  tags?: string[]
+  vary?: VaryPolicy
+  createdAt: string
+  expiresAt: string
+}
+
+export type UploadPart = {
+  part: number
+  size: number
+  // Hex SHA-256 of the part's bytes
+  checksum: string
+  uploadedAt: string
+}
+
+export type UploadProgress = {
+  parts: UploadPart[]
+  received: number
+  // Lowest part number not yet received
+  nextPart: number
+}
+
+const SESSION_PREFIX = 'uploads:sessions:'
+const INDEX_PREFIX = 'uploads:index:'
+const PART_PREFIX = 'uploads:parts:'
+const DATA_PREFIX = 'uploads:data:'
+
+// Sessions, and the parts sent to them, expire a day after they are started
+export const UPLOAD_SESSION_TTL = 24 * 60 * 60
+
+// Parts stay below the request body limit of edge functions
+export const MAX_PART_SIZE = 4 * 1024 * 1024
+export const MAX_UPLOAD_PARTS = 1000
+
+const CHECKSUM_PATTERN = /^[0-9a-f]{64}$/
+
+export function isValidChecksum(checksum: any): boolean {
+  return typeof checksum === 'string' && CHECKSUM_PATTERN.test(checksum)
+}
+
+export async function createUploadSession(
+  fields: Omit<UploadSession, 'id' | 'createdAt' | 'expiresAt'>
+): Promise<UploadSession> {
+  const now = Date.now()
+  const session: UploadSession = {
+    id: crypto.randomUUID(),
+    ...fields,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + UPLOAD_SESSION_TTL * 1000).toISOString()
+  }
+
+  await db.set(`${SESSION_PREFIX}${session.id}`, session, UPLOAD_SESSION_TTL)
+  return session
+}
+
+export async function getUploadSession(id: string): Promise<UploadSession | null> {
+  const record = await db.get(`${SESSION_PREFIX}${id}`)
+  return record ? record.data as UploadSession : null
+}
+
+// Store one part, replacing an earlier upload of the same number. The
+// checksum is verified against the bytes received, so a corrupted part is
+// refused rather than assembled.
+export async function putUploadPart(
+  session: UploadSession,
+  part: number,
+  bytes: Uint8Array,
+  checksum: string
+): Promise<{ part?: UploadPart; error?: string }> {
+  const actual = await sha256(bytes)
+  if (actual !== checksum) {
+    return { error: `Checksum mismatch for part ${part}: expected ${checksum}, received ${actual}` }
+  }
+
+  const uploaded: UploadPart = { part, size: bytes.length, checksum, uploadedAt: new Date().toISOString() }
+  const ttl = remainingSeconds(session)
+
+  // Data first, so an indexed part always has its bytes
+  await db.set(`${DATA_PREFIX}${session.id}:${part}`, toBase64(bytes), ttl)
+  await db.set(`${PART_PREFIX}${session.id}:${part}`, uploaded, ttl)
+  await db.addToSet(`${INDEX_PREFIX}${session.id}`, [String(part)], ttl)
+
+  return { part: uploaded }
+}
+
+export async function getUploadProgress(session: UploadSession): Promise<UploadProgress> {
+  const parts = await listParts(session)
+  const received = new Set(parts.map(part => part.part))
+
+  let nextPart = 1
+  while (received.has(nextPart)) nextPart++
+
+  return {
+    parts,
+    received: parts.reduce((total, part) => total + part.size, 0),
+    nextPart
+  }
+}
+
+// Join the parts, numbered 1 to n without gaps, into the uploaded text
+export async function assembleUpload(session: UploadSession): Promise<{ text?: string; size?: number; error?: string }> {
+  const parts = await listParts(session)
+  if (parts.length === 0) {
+    return { error: 'No parts have been uploaded' }
+  }
+
+  const missing = parts.findIndex((part, i) => part.part !== i + 1)
+  if (missing !== -1) {
+    return { error: `Part ${missing + 1} has not been uploaded` }
+  }
+
+  const size = parts.reduce((total, part) => total + part.size, 0)
+  if (session.size !== undefined && size !== session.size) {
+    return { error: `Received ${size} bytes, but the session declared ${session.size}` }
+  }
+
+  const records = await db.mget(parts.map(part => `${DATA_PREFIX}${session.id}:${part.part}`))
+  const bytes = new Uint8Array(size)
+  let offset = 0
+
+  for (let i = 0; i < records.length; i++) {
+    if (!records[i]) {
+      return { error: `Part ${i + 1} has expired` }
+    }
+    const part = fromBase64(records[i]!.data)
+    bytes.set(part, offset)
+    offset += part.length
+  }
+
+  // Parts may split a multi-byte character, so only the whole file is decoded
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), size }
+  } catch {
+    return { error: 'File is not valid UTF-8' }
+  }
+}
+
+// Remove a session with its parts, on completion or abort. Chunks of large
+// parts are left to expire with the session.
+export async function deleteUploadSession(session: UploadSession): Promise<void> {
+  const numbers = await db.getSet(`${INDEX_PREFIX}${session.id}`)
+
+  await db.deleteMany([
+    `${SESSION_PREFIX}${session.id}`,
+    `${INDEX_PREFIX}${session.id}`,
+    ...numbers.map(n => `${PART_PREFIX}${session.id}:${n}`),
+    ...numbers.map(n => `${DATA_PREFIX}${session.id}:${n}`)
+  ])
+}
+
+async function listParts(session: UploadSession): Promise<UploadPart[]> {
+  const numbers = await db.getSet(`${INDEX_PREFIX}${session.id}`)
+  if (numbers.length === 0) return []
+
+  const records = await db.mget(numbers.map(n => `${PART_PREFIX}${session.id}:${n}`))
+
+  return records
+    .filter(Boolean)
+    .map(record => record!.data as UploadPart)
+    .sort((a, b) => a.part - b.part)
+}
+
+// Parts expire with their session
+function remainingSeconds(session: UploadSession): number {
+  return Math.max(1, Math.ceil((Date.parse(session.expiresAt) - Date.now()) / 1000))
+}
@@ -4,12 +4,29 @@ export type APIResponse<T = any> = {
   data?: T
   error?: string
   message?: string
+  details?: any
   timestamp: string
   responseTime?: string
   cacheStatus?: 'hit' | 'miss' | 'stale'
   region?: string
 }
 
+// Which requests share a cached read: everyone, or one entry per country,
+// city, API consumer or value of a request header (e.g. "header:accept-language")
+export type VaryPolicy = 'none' | 'country' | 'city' | 'consumer' | `header:${string}`
+
+export type CacheContext = {
+  region?: string
+  city?: string
+  consumer?: string
+  headers?: Headers
+}
+
+// Documents without a policy are cached per country
+export const DEFAULT_VARY: VaryPolicy = 'country'
+
+const VARY_HEADER_PATTERN = /^header:[a-z0-9-]{1,64}$/
+
 export type PerformanceMetrics = {
   responseTime: number
   cacheStatus: 'hit' | 'miss' | 'stale'
@@ -24,6 +41,7 @@ export function createAPIResponse<T>(
     success?: boolean
     error?: string
     message?: string
+    details?: any
     cacheStatus?: 'hit' | 'miss' | 'stale'
     region?: string
     responseTime?: number
@@ -34,6 +52,7 @@ export function createAPIResponse<T>(
     ...(data && { data }),
     ...(options?.error && { error: options.error }),
     ...(options?.message && { message: options.message }),
+    ...(options?.details && { details: options.details }),
     timestamp: new Date().toISOString(),
     ...(options?.responseTime && { responseTime: `${options.responseTime}ms` }),
     ...(options?.cacheStatus && { cacheStatus: options.cacheStatus }),
@@ -60,22 +79,103 @@ export function validateJSON(data: any): { valid: boolean; error?: string } {
   }
 }
 
-// Generate cache key with region/user context
+// Structural equality for JSON values (object key order is ignored)
+export function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false
+  
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  if (keysA.length !== keysB.length) return false
+  
+  return keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+}
+
+// Generate the cache key of a request's variant under a variance policy.
+// Per-country keys are "<base>:<region>"; header values are hashed.
 export function generateCacheKey(
-  baseKey: string, 
-  context?: { region?: string; userId?: string }
+  baseKey: string,
+  vary: VaryPolicy = DEFAULT_VARY,
+  context: CacheContext = {}
 ): string {
-  let key = baseKey
+  const region = context.region || 'unknown'
+  
+  switch (vary) {
+    case 'none':
+      return `${baseKey}:all`
+    case 'country':
+      return `${baseKey}:${region}`
+    case 'city':
+      return `${baseKey}:city:${region}:${encodeURIComponent(context.city || 'unknown')}`
+    case 'consumer':
+      return `${baseKey}:consumer:${context.consumer || 'anonymous'}`
+    default: {
+      const header = vary.slice('header:'.length)
+      const value = context.headers?.get(header)?.trim().toLowerCase() || ''
+      return `${baseKey}:header:${header}:${hashString(value)}`
+    }
+  }
+}
+
+// Validate a client-supplied variance policy; header names are case-insensitive
+export function parseVaryPolicy(input: any): { vary?: VaryPolicy; error?: string } {
+  if (input === undefined || input === null || input === '') return {}
   
-  if (context?.region) {
-    key += `:${context.region}`
+  const vary = typeof input === 'string' ? input.trim().toLowerCase() : input
+  
+  if (vary === 'none' || vary === 'country' || vary === 'city' || vary === 'consumer') {
+    return { vary }
   }
   
-  if (context?.userId) {
-    key += `:${context.userId}`
+  if (typeof vary === 'string' && VARY_HEADER_PATTERN.test(vary)) {
+    return { vary: vary as VaryPolicy }
   }
   
-  return key
+  return { error: 'Vary must be one of: none, country, city, consumer, header:<name>' }
+}
+
+// Fast non-cryptographic hash (FNV-1a, 32-bit) as a hex string
+export function hashString(input: string): string {
+  let hash = 0x811c9dc5
+  
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+export async function sha256(value: string | Uint8Array): Promise<string> {
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource)
+  return toHex(new Uint8Array(digest))
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// Check an If-Match / If-None-Match header against an entity tag.
+// If-Match uses strong comparison (weak tags never match), If-None-Match weak.
+export function matchesETag(
+  header: string,
+  etag: string | null,
+  comparison: 'strong' | 'weak' = 'strong'
+): boolean {
+  if (!etag) return false
+  if (header.trim() === '*') return true
+  
+  return header.split(',').some(candidate => {
+    const tag = candidate.trim()
+    if (comparison === 'strong') {
+      return !tag.startsWith('W/') && tag === etag
+    }
+    return tag.replace(/^W\//, '') === etag.replace(/^W\//, '')
+  })
 }
 
 // Format bytes to human readable string
@@ -91,48 +191,6 @@ export function formatBytes(bytes: number, decimals: number = 2): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i]
 }
 
-// Rate limiting utility
-export class RateLimiter {
-  private requests: Map<string, number[]> = new Map()
-  private maxRequests: number
-  private windowMs: number
-
-  constructor(maxRequests: number = 100, windowMs: number = 60000) {
-    this.maxRequests = maxRequests
-    this.windowMs = windowMs
-  }
-
-  isAllowed(identifier: string): boolean {
-    const now = Date.now()
-    const requestTimes = this.requests.get(identifier) || []
-    
-    // Remove requests outside the window
-    const validRequests = requestTimes.filter(time => now - time < this.windowMs)
-    
-    if (validRequests.length >= this.maxRequests) {
-      return false
-    }
-    
-    // Add current request
-    validRequests.push(now)
-    this.requests.set(identifier, validRequests)
-    
-    return true
-  }
-
-  getRemainingRequests(identifier: string): number {
-    const now = Date.now()
-    const requestTimes = this.requests.get(identifier) || []
-    const validRequests = requestTimes.filter(time => now - time < this.windowMs)
-    
-    return Math.max(0, this.maxRequests - validRequests.length)
-  }
-
-  reset(identifier: string): void {
-    this.requests.delete(identifier)
-  }
-}
-
 // Performance monitoring
 export class PerformanceMonitor {
   private metrics: PerformanceMetrics[] = []
@@ -153,6 +211,7 @@ export class PerformanceMonitor {
         count: 0,
         averageResponseTime: 0,
         cacheHitRate: 0,
+        cacheStaleRate: 0,
         p95ResponseTime: 0,
         p99ResponseTime: 0,
       }
@@ -160,6 +219,7 @@ export class PerformanceMonitor {
 
     const responseTimes = this.metrics.map(m => m.responseTime).sort((a, b) => a - b)
     const cacheHits = this.metrics.filter(m => m.cacheStatus === 'hit').length
+    const staleServes = this.metrics.filter(m => m.cacheStatus === 'stale').length
     
     const p95Index = Math.floor(responseTimes.length * 0.95)
     const p99Index = Math.floor(responseTimes.length * 0.99)
@@ -168,6 +228,7 @@ export class PerformanceMonitor {
       count: this.metrics.length,
       averageResponseTime: responseTimes.reduce((a, b) => a + b, 0) / responseTimes.length,
       cacheHitRate: (cacheHits / this.metrics.length) * 100,
+      cacheStaleRate: (staleServes / this.metrics.length) * 100,
       p95ResponseTime: responseTimes[p95Index] || 0,
       p99ResponseTime: responseTimes[p99Index] || 0,
     }
@@ -182,9 +243,6 @@ export class PerformanceMonitor {
   }
 }
 
-// Global rate limiter instance
-export const globalRateLimiter = new RateLimiter(1000, 60000) // 1000 requests per minute
-
 // Global performance monitor instance
 export const performanceMonitor = new PerformanceMonitor()
 
@@ -246,4 +304,17 @@ export async function retry<T>(
   }
   
   throw lastError!
-}
\ No newline at end of file
+}
+
+// Keep background work running after the response is sent. Uses the Vercel
+// request context (what @vercel/functions' waitUntil reads); elsewhere the
+// promise simply runs unawaited.
+export function waitUntil(promise: Promise<unknown>): void {
+  const context = (globalThis as any)[Symbol.for('@vercel/request-context')]?.get?.()
+
+  if (context?.waitUntil) {
+    context.waitUntil(promise)
+  } else {
+    promise.catch(error => console.error('Background task failed:', error))
+  }
+}
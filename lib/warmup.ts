@@ -0,0 +1,307 @@
+// lib/warmup.ts - Cache warmup: ad hoc and scheduled runs, and the read metrics they report on
+import { cache, CacheStatus } from './cache'
+import { db, storage } from './database'
+import { documentCacheKey, documentCacheOptions, DOCUMENT_CACHE_TTL, toDocument } from './documents'
+import { toStorageKey } from './namespace'
+import { DEFAULT_VARY, VaryPolicy } from './utils'
+
+export type WarmupResult = {
+  key: string
+  status: 'warmed' | 'missing' | 'skipped' | 'failed'
+  error?: string
+}
+
+export type WarmupRun = {
+  id: string
+  jobId?: string
+  namespace: string
+  regions: string[]
+  startedAt: string
+  finishedAt: string
+  summary: {
+    total: number
+    warmed: number
+    missing: number
+    skipped: number
+    failed: number
+    // Cache entries written
+    entries: number
+  }
+  results: WarmupResult[]
+}
+
+export type WarmupJob = {
+  id: string
+  namespace: string
+  keys: string[]
+  // Regions to warm; null warms every region seen in recent reads
+  regions: string[] | null
+  intervalMinutes: number
+  createdAt: string
+  lastRunAt?: string
+  lastRunId?: string
+}
+
+export type ReadCounts = {
+  reads: number
+  hits: number
+  stale: number
+  misses: number
+  hitRate: number
+}
+
+export type HitRateReport = ReadCounts & {
+  since: string
+  regions: Record<string, ReadCounts>
+}
+
+const JOB_PREFIX = 'warmup:jobs:'
+const RUN_PREFIX = 'warmup:runs:'
+const READS_PREFIX = 'metrics:reads:'
+
+const HOUR = 60 * 60 * 1000
+
+// Read counters are kept per hour, region and cache status for a day; runs
+// are kept as long, so their hit rate can be reported until the counters go
+const METRICS_HOURS = 24
+const METRICS_TTL = (METRICS_HOURS + 1) * 60 * 60
+
+export const MAX_WARMUP_KEYS = 100
+export const MAX_WARMUP_REGIONS = 50
+export const MIN_WARMUP_INTERVAL = 5 // minutes, the cron granularity
+
+const CACHE_STATUSES: CacheStatus[] = ['hit', 'stale', 'miss']
+
+// Region codes as getClientRegion reports them, e.g. "US" or "unknown"
+const REGION_PATTERN = /^[A-Za-z0-9_-]{1,32}$/
+
+export function isValidRegion(region: any): boolean {
+  return typeof region === 'string' && REGION_PATTERN.test(region)
+}
+
+// Count a cached read; feeds the hit-rate reports and the list of seen regions
+export async function recordCacheRead(region: string, status: CacheStatus): Promise<void> {
+  await db.increment(`${READS_PREFIX}${hourOf(Date.now())}:${region}:${status}`, METRICS_TTL)
+}
+
+// Regions that read through the cache in the last day
+export async function listSeenRegions(): Promise<string[]> {
+  const regions = new Set<string>()
+  const since = hourOf(Date.now() - METRICS_HOURS * HOUR)
+
+  const keys = await db.list(`${READS_PREFIX}*`)
+  keys.forEach(key => {
+    const [hour, region] = key.slice(READS_PREFIX.length).split(':')
+    if (Number(hour) >= since) regions.add(region)
+  })
+
+  return Array.from(regions).sort()
+}
+
+// Hit rate of cached reads from the given regions, counted from the hour of
+// `since` (at most a day back) until now
+export async function getHitRate(regions: string[], since: Date): Promise<HitRateReport> {
+  const now = Date.now()
+  const first = Math.max(hourOf(since.getTime()), hourOf(now - METRICS_HOURS * HOUR))
+  const hours: number[] = []
+  for (let hour = first; hour <= hourOf(now); hour++) {
+    hours.push(hour)
+  }
+
+  const keys: string[] = []
+  regions.forEach(region => {
+    hours.forEach(hour => {
+      CACHE_STATUSES.forEach(status => keys.push(`${READS_PREFIX}${hour}:${region}:${status}`))
+    })
+  })
+
+  const counts = keys.length > 0 ? await storage.mget<number>(keys) : []
+  const byRegion: Record<string, Record<CacheStatus, number>> = {}
+  const total: Record<CacheStatus, number> = { hit: 0, stale: 0, miss: 0 }
+
+  keys.forEach((key, i) => {
+    const [, region, status] = key.slice(READS_PREFIX.length).split(':') as [string, string, CacheStatus]
+    const count = Number(counts[i]) || 0
+
+    byRegion[region] = byRegion[region] || { hit: 0, stale: 0, miss: 0 }
+    byRegion[region][status] += count
+    total[status] += count
+  })
+
+  const report: Record<string, ReadCounts> = {}
+  Object.keys(byRegion).forEach(region => {
+    report[region] = toReadCounts(byRegion[region])
+  })
+
+  return {
+    since: new Date(first * HOUR).toISOString(),
+    ...toReadCounts(total),
+    regions: report
+  }
+}
+
+// Write the cached read of each key for each region, in the shape the read
+// path caches. Documents shared by all regions get one entry; those varying by
+// city, consumer or header are skipped, as their variants are not known ahead.
+// Warmed entries have no city; the first read fills it in on refresh.
+export async function warmDocuments(
+  namespace: string,
+  keys: string[],
+  regions: string[],
+  jobId?: string
+): Promise<WarmupRun> {
+  const startedAt = new Date().toISOString()
+  const results: WarmupResult[] = []
+  let entries = 0
+
+  for (const key of keys) {
+    const storageKey = toStorageKey(namespace, key)
+
+    try {
+      const record = await db.get(storageKey)
+      if (!record) {
+        results.push({ key, status: 'missing' })
+        continue
+      }
+
+      const vary: VaryPolicy = record.metadata?.vary || DEFAULT_VARY
+      if (vary !== 'none' && vary !== 'country') {
+        results.push({ key, status: 'skipped', error: `Cached per ${vary}; only none and country can be warmed` })
+        continue
+      }
+
+      for (const region of vary === 'none' ? regions.slice(0, 1) : regions) {
+        await cache.set(
+          documentCacheKey(storageKey, vary, { region }),
+          toDocument(record, region, 'unknown'),
+          DOCUMENT_CACHE_TTL,
+          documentCacheOptions(namespace, storageKey)
+        )
+        entries++
+      }
+
+      results.push({ key, status: 'warmed' })
+    } catch (error) {
+      results.push({
+        key,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  const warmed = results.filter(r => r.status === 'warmed').length
+  const run: WarmupRun = {
+    id: crypto.randomUUID(),
+    ...(jobId && { jobId }),
+    namespace,
+    regions,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    summary: {
+      total: keys.length,
+      warmed,
+      missing: results.filter(r => r.status === 'missing').length,
+      skipped: results.filter(r => r.status === 'skipped').length,
+      failed: results.filter(r => r.status === 'failed').length,
+      entries
+    },
+    results
+  }
+
+  await db.set(`${RUN_PREFIX}${run.id}`, run, METRICS_TTL)
+  return run
+}
+
+export async function getWarmupRun(id: string): Promise<WarmupRun | null> {
+  const record = await db.get(`${RUN_PREFIX}${id}`)
+  return record ? record.data as WarmupRun : null
+}
+
+export async function createWarmupJob(
+  namespace: string,
+  keys: string[],
+  regions: string[] | null,
+  intervalMinutes: number
+): Promise<WarmupJob> {
+  const job: WarmupJob = {
+    id: crypto.randomUUID(),
+    namespace,
+    keys,
+    regions,
+    intervalMinutes,
+    createdAt: new Date().toISOString()
+  }
+
+  await db.set(`${JOB_PREFIX}${job.id}`, job)
+  return job
+}
+
+// Jobs of one namespace, or of all of them
+export async function listWarmupJobs(namespace?: string): Promise<WarmupJob[]> {
+  const keys = await db.list(`${JOB_PREFIX}*`)
+  if (keys.length === 0) return []
+
+  const records = await db.mget(keys)
+
+  return records
+    .filter(Boolean)
+    .map(record => record!.data as WarmupJob)
+    .filter(job => !namespace || job.namespace === namespace)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+export async function deleteWarmupJob(namespace: string, id: string): Promise<boolean> {
+  const record = await db.get(`${JOB_PREFIX}${id}`)
+  if (!record || (record.data as WarmupJob).namespace !== namespace) return false
+
+  await db.delete(`${JOB_PREFIX}${id}`)
+  return true
+}
+
+// Run every job (of one namespace, or of all) whose interval has passed; the
+// scheduled cron calls this every few minutes
+export async function runDueWarmupJobs(namespace?: string): Promise<WarmupRun[]> {
+  const now = Date.now()
+  const runs: WarmupRun[] = []
+  let seenRegions: string[] | null = null
+
+  for (const job of await listWarmupJobs(namespace)) {
+    const lastRun = job.lastRunAt ? Date.parse(job.lastRunAt) : 0
+    if (now - lastRun < job.intervalMinutes * 60 * 1000) continue
+
+    // Seen regions are looked up once for all jobs that use them
+    if (!job.regions && !seenRegions) {
+      seenRegions = await listSeenRegions()
+    }
+
+    const run = await warmDocuments(job.namespace, job.keys, job.regions || seenRegions || [], job.id)
+
+    await db.set(`${JOB_PREFIX}${job.id}`, { ...job, lastRunAt: run.startedAt, lastRunId: run.id })
+    runs.push(run)
+  }
+
+  return runs
+}
+
+// Vercel Cron sends "Authorization: Bearer <CRON_SECRET>"
+export function isCronRequest(headers: Headers): boolean {
+  const secret = process.env.CRON_SECRET
+  return !!secret && headers.get('authorization') === `Bearer ${secret}`
+}
+
+function hourOf(time: number): number {
+  return Math.floor(time / HOUR)
+}
+
+function toReadCounts(counts: Record<CacheStatus, number>): ReadCounts {
+  const reads = counts.hit + counts.stale + counts.miss
+
+  return {
+    reads,
+    hits: counts.hit,
+    stale: counts.stale,
+    misses: counts.miss,
+    hitRate: reads > 0 ? Math.round((counts.hit / reads) * 10000) / 100 : 0
+  }
+}
@@ -0,0 +1,44 @@
+// middleware.ts - Rate limiting for every API route
+import { NextRequest, NextResponse } from 'next/server'
+import { identifyApiKey } from '@/lib/auth'
+import { checkRateLimit, getRoutePolicy, rateLimitHeaders } from '@/lib/ratelimit'
+import { createAPIResponse, getClientIP } from '@/lib/utils'
+
+export const config = {
+  matcher: '/api/:path*'
+}
+
+export async function middleware(request: NextRequest) {
+  const policy = getRoutePolicy(request.nextUrl.pathname, request.method, request.headers.get('content-type'))
+  if (!policy) return NextResponse.next()
+
+  try {
+    // Requests with a known API key are limited per key and by its tier, the rest per IP
+    const apiKey = await identifyApiKey(request.headers)
+    const identity = apiKey ? `key:${apiKey.id}` : `ip:${getClientIP(request.headers)}`
+    const result = await checkRateLimit(identity, policy, apiKey?.tier)
+    const headers = rateLimitHeaders(result)
+
+    if (!result.allowed) {
+      return NextResponse.json(
+        createAPIResponse(null, {
+          error: 'Rate limit exceeded',
+          message: `Limit of ${result.limit} ${policy.name} requests per ${policy.windowSeconds}s reached, retry in ${result.reset}s`
+        }),
+        {
+          status: 429,
+          headers: { ...headers, 'Retry-After': String(result.reset) }
+        }
+      )
+    }
+
+    const response = NextResponse.next()
+    Object.keys(headers).forEach(name => response.headers.set(name, headers[name]))
+    return response
+
+  } catch (error) {
+    // Do not take the API down with the limiter's store
+    console.error('Rate limit error:', error)
+    return NextResponse.next()
+  }
+}
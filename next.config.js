@@ -23,8 +23,9 @@ const nextConfig = {
           },
           {
             key: 'Access-Control-Allow-Headers',
-            value: 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version, Authorization'
+            value: 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version, Authorization, X-API-Key, X-Namespace, X-Cache-Tags, X-Cache-Vary, If-Match, If-None-Match, X-Checksum-SHA256'
           },
+          { key: 'Access-Control-Expose-Headers', value: 'ETag, Warning, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After' },
           { key: 'X-Content-Type-Options', value: 'nosniff' },
           { key: 'X-Frame-Options', value: 'DENY' },
           { key: 'X-XSS-Protection', value: '1; mode=block' },
@@ -34,6 +35,16 @@ const nextConfig = {
     ]
   },
   
+  // Namespace path segment: /api/ns/<namespace>/data → /api/data?namespace=<namespace>
+  async rewrites() {
+    return [
+      {
+        source: '/api/ns/:namespace/:path*',
+        destination: '/api/:path*?namespace=:namespace',
+      },
+    ]
+  },
+
   // Redirects
   async redirects() {
     return [